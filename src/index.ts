@@ -12,7 +12,39 @@ import morgan from "morgan";
 import Database from "better-sqlite3";
 import { initializeWalletWithConnection } from "./utils/wallet";
 import { createJupiterService } from "./services/JupiterService";
-import { createPositionManager, Position } from "./services/PositionManager";
+import { createPriorityFeeService } from "./services/PriorityFeeService";
+import { createTokenRegistry } from "./services/TokenRegistry";
+import { createConfiguredSwapRouter } from "./services/SwapRouter";
+import {
+  createPositionManager,
+  getApproachingExit,
+  Position,
+} from "./services/PositionManager";
+import {
+  createPendingOrderManager,
+  PendingOrderManager,
+} from "./services/PendingOrderManager";
+import { createRiskEngine, RiskEngine } from "./services/RiskEngine";
+import {
+  createTokenListService,
+  isTokenListType,
+  TOKEN_LIST_TYPES,
+  TokenListService,
+} from "./services/TokenListService";
+import {
+  cancelsPlannedBuys,
+  getTradingMode,
+  isTradingMode,
+  setTradingMode,
+  TRADING_MODE_DESCRIPTIONS,
+  TRADING_MODES,
+} from "./utils/trading-mode";
+import {
+  getPaperBalance,
+  isPaperTrading,
+  resetPaperBalance,
+  setPaperTrading,
+} from "./utils/paper-trading";
 import { Connection } from "@solana/web3.js";
 import { SolanaWalletClient } from "./types/trade";
 import {
@@ -32,6 +64,9 @@ const __dirname = path.dirname(__filename);
 let db: Database.Database;
 let jupiterService: any;
 let positionManager: any;
+let pendingOrderManager: PendingOrderManager;
+let riskEngine: RiskEngine;
+let tokenListService: TokenListService;
 let walletClient: SolanaWalletClient;
 let connection: Connection;
 let tokenCache: Record<string, any> = {};
@@ -103,10 +138,36 @@ async function main() {
       console.error("Error accessing wallet details:", error);
     }
 
-    jupiterService = createJupiterService();
+    jupiterService = createJupiterService(
+      createPriorityFeeService(db),
+      createTokenRegistry(db)
+    );
+
+    // Route swaps to the best quote across the configured venues
+    const swapRouter = createConfiguredSwapRouter(jupiterService);
 
     // Create position manager
-    positionManager = createPositionManager(db, jupiterService, walletClient);
+    positionManager = createPositionManager(
+      db,
+      jupiterService,
+      walletClient,
+      swapRouter
+    );
+
+    // Create pending order manager for limit entries
+    pendingOrderManager = createPendingOrderManager(
+      db,
+      jupiterService,
+      walletClient,
+      positionManager,
+      swapRouter
+    );
+
+    // Portfolio limits, shown on the dashboard
+    riskEngine = createRiskEngine(db);
+
+    // Allow and deny lists, managed from the dashboard
+    tokenListService = createTokenListService(db);
 
     // Initialize Express app
     const app = express();
@@ -142,6 +203,9 @@ async function main() {
         recentTrades.forEach((trade: any) =>
           tokenAddresses.add(trade.token_address)
         );
+        pendingOrderManager
+          .getPendingOrders()
+          .forEach((order) => tokenAddresses.add(order.tokenAddress));
 
         // Get token info for each unique address
         for (const address of tokenAddresses) {
@@ -339,17 +403,40 @@ async function main() {
         const totalPages = Math.ceil(totalTrades / tradesPerPage);
 
         // Get recent trades with pagination, filtering out items without a valid date
+        // Each trade is joined with its exit record (trigger, price snapshot, reasoning)
         const recentTrades = db
           .prepare(
             `
-          SELECT * FROM trades 
-          WHERE exit_time IS NOT NULL AND exit_time > 0
-          ORDER BY exit_time DESC 
+          SELECT
+            trades.*,
+            trade_exits.trigger_type,
+            trade_exits.trigger_price,
+            trade_exits.highest_price AS exit_highest_price,
+            trade_exits.drawdown_percentage,
+            trade_exits.reasoning AS exit_reasoning
+          FROM trades 
+          LEFT JOIN trade_exits ON trade_exits.trade_id = trades.id
+          WHERE trades.exit_time IS NOT NULL AND trades.exit_time > 0
+          ORDER BY trades.exit_time DESC 
           LIMIT ? OFFSET ?
         `
           )
           .all(tradesPerPage, offset);
 
+        // Limit entries waiting for a retrace
+        const pendingOrders = pendingOrderManager.getPendingOrders();
+
+        // Exposure against the portfolio risk limits
+        const riskState = await riskEngine.getRiskState();
+        const tradingMode = getTradingMode(db);
+        const tokenListEntries = tokenListService.getEntries();
+
+        // Live and paper results side by side
+        const books = {
+          live: positionManager.getBookSummary(false),
+          paper: positionManager.getBookSummary(true),
+        };
+
         // Update token cache
         await updateTokenCache();
 
@@ -358,6 +445,22 @@ async function main() {
           positions,
           metrics: adjustedMetrics,
           recentTrades,
+          pendingOrders,
+          riskState,
+          tradingMode,
+          tradingModes: TRADING_MODES,
+          tradingModeDescription: TRADING_MODE_DESCRIPTIONS[tradingMode],
+          paperTrading: isPaperTrading(db),
+          paperBalanceSol: getPaperBalance(db) / 1e9,
+          books,
+          tokenListEntries,
+          tokenListTypes: TOKEN_LIST_TYPES,
+          allowlistOnly: tokenListService.isAllowlistOnly(),
+          deniedMints: tokenListEntries
+            .filter((entry) => entry.listType === "DENY_MINT")
+            .map((entry) => entry.value),
+          rugExitLossPercentage:
+            Number(process.env.RUG_EXIT_LOSS_PERCENTAGE) || 50,
           solBalance: solBalanceInSol,
           solValueUsd,
           totalValueWithSol,
@@ -367,6 +470,7 @@ async function main() {
           formatTokenAmount,
           truncateAddress,
           normalizeTokenAmount,
+          getApproachingExit,
           // Pagination data
           currentPage: page,
           totalPages,
@@ -434,7 +538,10 @@ async function main() {
         }
 
         // Attempt to close the position
-        const success = await positionManager.closePosition(positionId);
+        const success = await positionManager.closePosition(
+          positionId,
+          "MANUAL"
+        );
 
         if (success) {
           res.json({
@@ -457,6 +564,33 @@ async function main() {
       }
     }) as RequestHandler);
 
+    // API endpoint for cancelling a pending limit entry
+    app.post("/api/order/cancel/:id", (async (req: Request, res: Response) => {
+      try {
+        const orderId = req.params.id as string;
+        const success = pendingOrderManager.cancelOrder(orderId);
+
+        if (success) {
+          console.log(`🚫 Pending order ${orderId} cancelled`);
+          res.json({
+            success: true,
+            message: "Order cancelled successfully",
+          });
+        } else {
+          res.status(404).json({
+            success: false,
+            error: "Pending order not found",
+          });
+        }
+      } catch (error) {
+        console.error(`Error cancelling order:`, error);
+        res.status(500).json({
+          success: false,
+          error: (error as Error).message,
+        });
+      }
+    }) as RequestHandler);
+
     // API endpoint for deleting a position without selling tokens
     app.post("/api/position/delete/:id", (async (
       req: Request,
@@ -511,6 +645,7 @@ async function main() {
 
           // Add a record in trades table for accounting purposes
           if (position.currentPrice) {
+            const tradeId = randomUUID();
             db.prepare(
               `
               INSERT INTO trades (
@@ -522,11 +657,12 @@ async function main() {
                 exit_time,
                 status,
                 profit_loss,
-                tx_id
-              ) VALUES (?, ?, ?, ?, ?, unixepoch(), ?, ?, 'manual_delete')
+                tx_id,
+                exit_reason
+              ) VALUES (?, ?, ?, ?, ?, unixepoch(), ?, ?, 'manual_delete', 'MANUAL_DELETE')
             `
             ).run(
-              randomUUID(),
+              tradeId,
               position.tokenAddress,
               position.amount,
               position.entryPrice,
@@ -534,6 +670,14 @@ async function main() {
               "CLOSED",
               profitLoss
             );
+
+            positionManager.recordExit(
+              tradeId,
+              position,
+              "MANUAL_DELETE",
+              position.currentPrice,
+              "Position deleted from the dashboard without selling tokens"
+            );
           }
 
           // Commit the transaction
@@ -566,6 +710,202 @@ async function main() {
       }
     }) as RequestHandler);
 
+    // API endpoints for the global trading mode (kill switch)
+    app.get("/api/trading-mode", ((req: Request, res: Response) => {
+      res.json({ mode: getTradingMode(db), modes: TRADING_MODES });
+    }) as RequestHandler);
+
+    app.post("/api/trading-mode", ((req: Request, res: Response) => {
+      try {
+        const mode = req.body?.mode;
+        if (!isTradingMode(mode)) {
+          return res.status(400).json({
+            success: false,
+            error: `Invalid trading mode, expected one of ${TRADING_MODES.join(
+              ", "
+            )}`,
+          });
+        }
+
+        setTradingMode(db, mode);
+
+        // Winding down: nothing planned before may be bought once trading resumes
+        if (cancelsPlannedBuys(mode)) {
+          const orders = pendingOrderManager.cancelAllOrders();
+          const positions = positionManager.cancelScaleInTranches();
+          console.log(
+            `🚦 ${mode}: cancelled ${orders} limit entries and the scale-in tranches of ${positions} positions`
+          );
+        }
+        res.json({ success: true, mode });
+      } catch (error) {
+        console.error(`Error setting trading mode:`, error);
+        res.status(500).json({
+          success: false,
+          error: (error as Error).message,
+        });
+      }
+    }) as RequestHandler);
+
+    // API endpoints for paper trading and its virtual SOL balance
+    app.get("/api/paper-trading", ((req: Request, res: Response) => {
+      res.json({
+        enabled: isPaperTrading(db),
+        balanceSol: getPaperBalance(db) / 1e9,
+        live: positionManager.getBookSummary(false),
+        paper: positionManager.getBookSummary(true),
+      });
+    }) as RequestHandler);
+
+    app.post("/api/paper-trading", ((req: Request, res: Response) => {
+      try {
+        const enabled = req.body?.enabled === true;
+        setPaperTrading(db, enabled);
+        res.json({ success: true, enabled });
+      } catch (error) {
+        console.error(`Error setting paper trading:`, error);
+        res.status(500).json({
+          success: false,
+          error: (error as Error).message,
+        });
+      }
+    }) as RequestHandler);
+
+    app.post("/api/paper-trading/reset", ((req: Request, res: Response) => {
+      try {
+        resetPaperBalance(db);
+        res.json({ success: true, balanceSol: getPaperBalance(db) / 1e9 });
+      } catch (error) {
+        console.error(`Error resetting paper balance:`, error);
+        res.status(500).json({
+          success: false,
+          error: (error as Error).message,
+        });
+      }
+    }) as RequestHandler);
+
+    // API endpoint for selling every active position at once
+    app.post("/api/positions/panic-sell", (async (
+      req: Request,
+      res: Response
+    ) => {
+      try {
+        const results = await positionManager.closeAllPositions();
+        res.json({
+          success: results.every((result: any) => result.success),
+          results,
+        });
+      } catch (error) {
+        console.error(`Error during panic sell:`, error);
+        res.status(500).json({
+          success: false,
+          error: (error as Error).message,
+        });
+      }
+    }) as RequestHandler);
+
+    // API endpoints for the managed allow and deny lists
+    app.get("/api/token-lists", ((req: Request, res: Response) => {
+      res.json({
+        entries: tokenListService.getEntries(),
+        allowlistOnly: tokenListService.isAllowlistOnly(),
+      });
+    }) as RequestHandler);
+
+    app.post("/api/token-lists", ((req: Request, res: Response) => {
+      try {
+        const { listType, value, reason } = req.body || {};
+        if (!isTokenListType(listType) || typeof value !== "string") {
+          return res.status(400).json({
+            success: false,
+            error: `Expected a listType (${TOKEN_LIST_TYPES.join(
+              ", "
+            )}) and a value`,
+          });
+        }
+
+        tokenListService.addEntry(listType, value, reason);
+        res.json({ success: true });
+      } catch (error) {
+        console.error(`Error adding list entry:`, error);
+        res.status(400).json({
+          success: false,
+          error: (error as Error).message,
+        });
+      }
+    }) as RequestHandler);
+
+    app.post("/api/token-lists/delete/:id", ((req: Request, res: Response) => {
+      try {
+        const success = tokenListService.removeEntry(Number(req.params.id));
+        if (success) {
+          res.json({ success: true });
+        } else {
+          res.status(404).json({
+            success: false,
+            error: "List entry not found",
+          });
+        }
+      } catch (error) {
+        console.error(`Error removing list entry:`, error);
+        res.status(500).json({
+          success: false,
+          error: (error as Error).message,
+        });
+      }
+    }) as RequestHandler);
+
+    app.post("/api/token-lists/allowlist-only", ((
+      req: Request,
+      res: Response
+    ) => {
+      try {
+        const enabled = req.body?.enabled === true;
+        tokenListService.setAllowlistOnly(enabled);
+        res.json({ success: true, allowlistOnly: enabled });
+      } catch (error) {
+        console.error(`Error setting allowlist-only mode:`, error);
+        res.status(500).json({
+          success: false,
+          error: (error as Error).message,
+        });
+      }
+    }) as RequestHandler);
+
+    // API endpoint for blocking the creator of a rugged token
+    app.post("/api/token-lists/block-creator", (async (
+      req: Request,
+      res: Response
+    ) => {
+      try {
+        const { tokenAddress, reason } = req.body || {};
+        if (typeof tokenAddress !== "string") {
+          return res.status(400).json({
+            success: false,
+            error: "tokenAddress is required",
+          });
+        }
+
+        const creator = await tokenListService.blockCreator(
+          tokenAddress,
+          reason || `rugged ${tokenAddress}`
+        );
+        res.json({
+          success: true,
+          creator,
+          message: creator
+            ? `Blocked creator ${creator} and denied the mint`
+            : "Denied the mint, but its creator could not be found",
+        });
+      } catch (error) {
+        console.error(`Error blocking creator:`, error);
+        res.status(500).json({
+          success: false,
+          error: (error as Error).message,
+        });
+      }
+    }) as RequestHandler);
+
     // Start the server
     app.listen(port, () => {
       console.log(`🚀 Dashboard running at http://localhost:${port}`);
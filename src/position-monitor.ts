@@ -3,11 +3,27 @@ import "dotenv/config";
 import Database from "better-sqlite3";
 import { initializeWalletWithConnection } from "./utils/wallet";
 import { createJupiterService } from "./services/JupiterService";
+import { createPriorityFeeService } from "./services/PriorityFeeService";
+import { createTokenRegistry } from "./services/TokenRegistry";
+import { createConfiguredSwapRouter } from "./services/SwapRouter";
 import {
   createPositionManager,
+  ExitReason,
+  getApproachingExit,
+  Position,
   PositionManager,
 } from "./services/PositionManager";
+import {
+  createPendingOrderManager,
+  PendingOrderManager,
+} from "./services/PendingOrderManager";
 import { initializeDatabase as initDb } from "./utils/db-schema";
+import {
+  canExitAutomatically,
+  canOpenPositions,
+  getTradingMode,
+  TradingMode,
+} from "./utils/trading-mode";
 import path from "path";
 import { fileURLToPath } from "url";
 
@@ -17,6 +33,9 @@ const __dirname = path.dirname(__filename);
 // Default check interval (in milliseconds)
 const DEFAULT_CHECK_INTERVAL = 60 * 1000;
 
+// Trading mode seen on the previous check, to log changes once
+let lastTradingMode: TradingMode | null = null;
+
 async function initializeDatabase(): Promise<Database.Database> {
   // Always use a project-relative path for the database
   const dbPath =
@@ -48,22 +67,44 @@ async function monitorPositions() {
     // Initialize wallet
     const { walletClient } = await initializeWalletWithConnection();
 
-    // Create Jupiter service
-    const jupiterService = createJupiterService();
+    // Local token registry, refreshed from the full token list by this process
+    const tokenRegistry = createTokenRegistry(db);
+
+    // Create Jupiter service with priority fee estimation and budget
+    const jupiterService = createJupiterService(
+      createPriorityFeeService(db),
+      tokenRegistry
+    );
+
+    // Route swaps to the best quote across the configured venues
+    const swapRouter = createConfiguredSwapRouter(jupiterService);
 
     // Create position manager
     const positionManager = createPositionManager(
       db,
       jupiterService,
-      walletClient
+      walletClient,
+      swapRouter
     );
 
+    // Create pending order manager for limit entries
+    const pendingOrderManager = createPendingOrderManager(
+      db,
+      jupiterService,
+      walletClient,
+      positionManager,
+      swapRouter
+    );
+
+    // Refresh the token registry once positions and migrations are set up
+    tokenRegistry.startRefreshSchedule();
+
     // Initial check (no logging)
-    await runCheck(positionManager);
+    await runCheck(db, positionManager, pendingOrderManager);
 
     // Set up interval for periodic checking (no per-check logging)
     setInterval(async () => {
-      await runCheck(positionManager);
+      await runCheck(db, positionManager, pendingOrderManager);
     }, checkInterval);
 
     console.log(`Position monitor running. Interval: ${checkInterval / 1000}s`);
@@ -76,8 +117,27 @@ async function monitorPositions() {
   }
 }
 
-async function runCheck(positionManager: PositionManager) {
+async function runCheck(
+  db: Database.Database,
+  positionManager: PositionManager,
+  pendingOrderManager: PendingOrderManager
+) {
   try {
+    // The mode can be changed from the dashboard at any time
+    const tradingMode = getTradingMode(db);
+    if (tradingMode !== lastTradingMode) {
+      console.log(`🚦 Trading mode: ${tradingMode}`);
+      lastTradingMode = tradingMode;
+    }
+
+    // Fill limit entries whose token has retraced to the trigger price
+    if (canOpenPositions(tradingMode)) {
+      await pendingOrderManager.checkPendingOrders();
+    }
+
+    // Sell the next chunk of TWAP exits, including ones started before a restart
+    await positionManager.processTwapExits();
+
     // Get active positions
     const activePositions = await positionManager.getAllActivePositions();
     
@@ -88,6 +148,23 @@ async function runCheck(positionManager: PositionManager) {
     // Update prices and check for stop-loss/take-profit conditions
     await positionManager.updatePricesAndProfitLoss();
 
+    // Close positions that have been held too long or stopped making new highs
+    const timeExitPositions = canExitAutomatically(tradingMode)
+      ? await positionManager.getAllActivePositions()
+      : [];
+    for (const position of timeExitPositions) {
+      const exitReason = getTimeBasedExit(position, Date.now());
+      if (!exitReason) continue;
+
+      console.log(
+        `⏰ Time-based exit (${exitReason}) for position ${position.id.substring(0, 8)}`
+      );
+      const success = await positionManager.closePosition(position.id, exitReason);
+      if (!success) {
+        console.error(`❌ Failed to close stale position ${position.id}`);
+      }
+    }
+
     // Re-check active positions to see what's left after possible auto-closes
     const remainingPositions = await positionManager.getAllActivePositions();
     
@@ -99,11 +176,12 @@ async function runCheck(positionManager: PositionManager) {
       const profitLoss = position.profitLoss;
       const profitLossPercentage = entryValue > 0 ? (profitLoss / entryValue) * 100 : 0;
 
-      // Only log warnings for positions approaching thresholds
-      if (profitLossPercentage < -10 && profitLossPercentage > -20) {
-        console.log(`⚠️ Position ${position.id.substring(0,8)} approaching stop-loss (${profitLossPercentage.toFixed(2)}%)`);
-      } else if (profitLossPercentage > 25 && profitLossPercentage < 30) {
-        console.log(`⚠️ Position ${position.id.substring(0,8)} approaching take-profit (${profitLossPercentage.toFixed(2)}%)`);
+      // Only log warnings for positions approaching their stop or target
+      const approachingExit = getApproachingExit(position);
+      if (approachingExit === "stop-loss") {
+        console.log(`⚠️ Position ${position.id.substring(0,8)} approaching stop-loss at ${position.stopLossPrice} (${profitLossPercentage.toFixed(2)}%)`);
+      } else if (approachingExit === "take-profit") {
+        console.log(`⚠️ Position ${position.id.substring(0,8)} approaching take-profit at ${position.takeProfitPrice} (${profitLossPercentage.toFixed(2)}%)`);
       }
     }
   } catch (error) {
@@ -111,6 +189,28 @@ async function runCheck(positionManager: PositionManager) {
   }
 }
 
+// Check a position against its max holding period and "no new high" rule
+function getTimeBasedExit(position: Position, now: number): ExitReason | null {
+  const minute = 60 * 1000;
+
+  if (
+    position.maxHoldingMinutes &&
+    now - position.entryTime >= position.maxHoldingMinutes * minute
+  ) {
+    return "TIME_OUT";
+  }
+
+  const lastHighAt = position.highestPriceAt || position.entryTime;
+  if (
+    position.staleAfterMinutes &&
+    now - lastHighAt >= position.staleAfterMinutes * minute
+  ) {
+    return "STALE";
+  }
+
+  return null;
+}
+
 // Handle process termination
 process.on("SIGINT", async () => {
   console.log("\nGracefully shutting down position monitor...");
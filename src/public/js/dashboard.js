@@ -7,6 +7,10 @@ document.addEventListener("DOMContentLoaded", function () {
   initializeCountdown();
   initializeCopyButtons();
   initializeClosePositionButtons();
+  initializeCancelOrderButtons();
+  initializeTradingControls();
+  initializePaperTrading();
+  initializeTokenLists();
   loadBalanceHistoryChart();
 });
 
@@ -187,6 +191,51 @@ function initializeClosePositionButtons() {
   });
 }
 
+/**
+ * Initialize functionality for cancel pending order buttons
+ */
+function initializeCancelOrderButtons() {
+  document.querySelectorAll(".cancel-order-btn").forEach((button) => {
+    button.addEventListener("click", async function (e) {
+      e.preventDefault();
+      const orderId = this.dataset.orderId;
+      const tokenName = this.dataset.tokenName;
+
+      // Confirm with the user before cancelling the order
+      if (!confirm(`Cancel the pending limit entry for ${tokenName}?`)) {
+        return;
+      }
+
+      // Disable the button and show loading state
+      this.disabled = true;
+      this.textContent = "Cancelling...";
+
+      try {
+        const response = await fetch(`/api/order/cancel/${orderId}`, {
+          method: "POST",
+        });
+        const result = await response.json();
+
+        if (result.success) {
+          // Refresh the page to show updated data
+          window.location.reload();
+        } else {
+          alert(`Error cancelling order: ${result.error}`);
+          // Re-enable the button
+          this.disabled = false;
+          this.textContent = "Cancel";
+        }
+      } catch (error) {
+        console.error("Error cancelling order:", error);
+        alert("An unexpected error occurred. Please try again.");
+        // Re-enable the button
+        this.disabled = false;
+        this.textContent = "Cancel";
+      }
+    });
+  });
+}
+
 /**
  * Load and render the balance history chart
  */
@@ -278,3 +327,309 @@ async function loadBalanceHistoryChart() {
     console.error("Error loading balance history chart:", error);
   }
 }
+
+/**
+ * Initialize the trading mode buttons and the panic sell button
+ */
+function initializeTradingControls() {
+  document.querySelectorAll(".trading-mode-btn").forEach((button) => {
+    button.addEventListener("click", async function (e) {
+      e.preventDefault();
+      const mode = this.dataset.mode;
+
+      const warning =
+        mode === "EXITS_ONLY"
+          ? " Pending limit entries and planned scale-in tranches will be cancelled."
+          : "";
+      if (!confirm(`Switch trading mode to ${mode}?${warning}`)) {
+        return;
+      }
+
+      this.disabled = true;
+
+      try {
+        const response = await fetch("/api/trading-mode", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ mode }),
+        });
+        const result = await response.json();
+
+        if (result.success) {
+          window.location.reload();
+        } else {
+          alert(`Error setting trading mode: ${result.error}`);
+          this.disabled = false;
+        }
+      } catch (error) {
+        console.error("Error setting trading mode:", error);
+        alert("An unexpected error occurred. Please try again.");
+        this.disabled = false;
+      }
+    });
+  });
+
+  const panicButton = document.querySelector(".panic-sell-btn");
+  if (!panicButton) return;
+
+  panicButton.addEventListener("click", async function (e) {
+    e.preventDefault();
+
+    // Selling everything can't be undone, make sure it's intended
+    if (
+      !confirm(
+        "Sell ALL active positions now at any price? Consider setting the trading mode to HALTED or EXITS_ONLY first."
+      )
+    ) {
+      return;
+    }
+
+    this.disabled = true;
+    this.textContent = "Selling...";
+
+    try {
+      const response = await fetch("/api/positions/panic-sell", {
+        method: "POST",
+      });
+      const result = await response.json();
+
+      if (result.results) {
+        const lines = result.results.map(
+          (r) =>
+            `${r.success ? "✅" : "❌"} ${r.tokenAddress}${
+              r.error ? `: ${r.error}` : ""
+            }`
+        );
+        alert(`Panic sell results:\n${lines.join("\n")}`);
+      } else {
+        alert(`Error during panic sell: ${result.error}`);
+      }
+      window.location.reload();
+    } catch (error) {
+      console.error("Error during panic sell:", error);
+      alert("An unexpected error occurred. Please try again.");
+      this.disabled = false;
+      this.textContent = "Panic Sell All";
+    }
+  });
+}
+
+/**
+ * Initialize the paper trading toggle and balance reset
+ */
+function initializePaperTrading() {
+  const toggleButton = document.querySelector(".paper-trading-btn");
+  if (toggleButton) {
+    toggleButton.addEventListener("click", async function (e) {
+      e.preventDefault();
+      const enabled = this.dataset.enabled === "true";
+
+      // Open positions keep trading in the mode they were opened in
+      if (
+        !confirm(
+          enabled
+            ? "Simulate new buys with the paper balance?"
+            : "Spend real SOL on new buys?"
+        )
+      ) {
+        return;
+      }
+
+      this.disabled = true;
+
+      try {
+        const response = await fetch("/api/paper-trading", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ enabled }),
+        });
+        const result = await response.json();
+
+        if (result.success) {
+          window.location.reload();
+        } else {
+          alert(`Error setting paper trading: ${result.error}`);
+          this.disabled = false;
+        }
+      } catch (error) {
+        console.error("Error setting paper trading:", error);
+        alert("An unexpected error occurred. Please try again.");
+        this.disabled = false;
+      }
+    });
+  }
+
+  const resetButton = document.querySelector(".paper-reset-btn");
+  if (!resetButton) return;
+
+  resetButton.addEventListener("click", async function (e) {
+    e.preventDefault();
+
+    if (!confirm("Reset the paper balance to its starting balance?")) {
+      return;
+    }
+
+    this.disabled = true;
+
+    try {
+      const response = await fetch("/api/paper-trading/reset", {
+        method: "POST",
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        window.location.reload();
+      } else {
+        alert(`Error resetting paper balance: ${result.error}`);
+        this.disabled = false;
+      }
+    } catch (error) {
+      console.error("Error resetting paper balance:", error);
+      alert("An unexpected error occurred. Please try again.");
+      this.disabled = false;
+    }
+  });
+}
+
+/**
+ * Initialize the token list form, removal and block creator buttons
+ */
+function initializeTokenLists() {
+  const form = document.getElementById("token-list-form");
+  if (form) {
+    form.addEventListener("submit", async function (e) {
+      e.preventDefault();
+      const data = new FormData(form);
+
+      try {
+        const response = await fetch("/api/token-lists", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            listType: data.get("listType"),
+            value: data.get("value"),
+            reason: data.get("reason"),
+          }),
+        });
+        const result = await response.json();
+
+        if (result.success) {
+          window.location.reload();
+        } else {
+          alert(`Error adding list entry: ${result.error}`);
+        }
+      } catch (error) {
+        console.error("Error adding list entry:", error);
+        alert("An unexpected error occurred. Please try again.");
+      }
+    });
+  }
+
+  const allowlistToggle = document.getElementById("allowlist-only-toggle");
+  if (allowlistToggle) {
+    allowlistToggle.addEventListener("change", async function () {
+      const enabled = this.checked;
+
+      // Allowlist-only mode rejects every BUY signal for unlisted mints
+      if (
+        enabled &&
+        !confirm("Only accept BUY signals for allowlisted mints?")
+      ) {
+        this.checked = false;
+        return;
+      }
+
+      try {
+        const response = await fetch("/api/token-lists/allowlist-only", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ enabled }),
+        });
+        const result = await response.json();
+
+        if (!result.success) {
+          alert(`Error setting allowlist-only mode: ${result.error}`);
+          this.checked = !enabled;
+        }
+      } catch (error) {
+        console.error("Error setting allowlist-only mode:", error);
+        alert("An unexpected error occurred. Please try again.");
+        this.checked = !enabled;
+      }
+    });
+  }
+
+  document.querySelectorAll(".remove-list-entry-btn").forEach((button) => {
+    button.addEventListener("click", async function (e) {
+      e.preventDefault();
+      const entryId = this.dataset.entryId;
+
+      if (!confirm(`Remove ${this.dataset.entryValue} from the list?`)) {
+        return;
+      }
+
+      this.disabled = true;
+
+      try {
+        const response = await fetch(`/api/token-lists/delete/${entryId}`, {
+          method: "POST",
+        });
+        const result = await response.json();
+
+        if (result.success) {
+          window.location.reload();
+        } else {
+          alert(`Error removing list entry: ${result.error}`);
+          this.disabled = false;
+        }
+      } catch (error) {
+        console.error("Error removing list entry:", error);
+        alert("An unexpected error occurred. Please try again.");
+        this.disabled = false;
+      }
+    });
+  });
+
+  document.querySelectorAll(".block-creator-btn").forEach((button) => {
+    button.addEventListener("click", async function (e) {
+      e.preventDefault();
+      const tokenAddress = this.dataset.tokenAddress;
+      const tokenName = this.dataset.tokenName;
+
+      if (
+        !confirm(`Deny ${tokenName} and block its creator from future buys?`)
+      ) {
+        return;
+      }
+
+      this.disabled = true;
+      this.textContent = "Blocking...";
+
+      try {
+        const response = await fetch("/api/token-lists/block-creator", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            tokenAddress,
+            reason: `rugged ${tokenName}`,
+          }),
+        });
+        const result = await response.json();
+
+        if (result.success) {
+          alert(result.message);
+          window.location.reload();
+        } else {
+          alert(`Error blocking creator: ${result.error}`);
+          this.disabled = false;
+          this.textContent = "Block creator";
+        }
+      } catch (error) {
+        console.error("Error blocking creator:", error);
+        alert("An unexpected error occurred. Please try again.");
+        this.disabled = false;
+        this.textContent = "Block creator";
+      }
+    });
+  });
+}
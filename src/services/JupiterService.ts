@@ -1,7 +1,27 @@
-import { Transaction } from "@solana/web3.js";
-import { SolanaWalletClient, TokenInfo } from "../types/trade";
+import {
+  AddressLookupTableAccount,
+  Connection,
+  PublicKey,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import {
+  QuoteParams,
+  SolanaTransaction,
+  SolanaWalletClient,
+  SwapResponse,
+  SwapSimulation,
+  SwapUrgency,
+  SwapVenue,
+  TokenInfo,
+} from "../types/trade";
+import { PriorityFee, PriorityFeeService } from "./PriorityFeeService";
+import { TokenRegistry } from "./TokenRegistry";
+
+export class JupiterService implements SwapVenue {
+  readonly name = "jupiter";
+
 
-export class JupiterService {
   // API endpoints
   private readonly QUOTE_API = "https://quote-api.jup.ag/v6";
   private readonly TOKENS_API = "https://token.jup.ag/all";
@@ -18,6 +38,26 @@ export class JupiterService {
     new Map();
   private readonly TOKEN_INFO_CACHE_TTL = 5 * 60 * 1000; // 5 minutes cache validity
 
+  // The full token list, shared by all getTokenInfo lookups
+  private tokenListCache: { tokens: any[]; timestamp: number } | null = null;
+
+  // Maximum number of ids per price API request
+  private readonly PRICE_BATCH_SIZE = 100;
+
+  // Parameters each quote was requested with, to quote the swap again
+  private quoteParams: WeakMap<object, QuoteParams> = new WeakMap();
+
+  // RPC connection used to resolve address lookup tables and confirm swaps
+  private connection: Connection | null = null;
+  private readonly CONFIRMATION_TIMEOUT = 60 * 1000; // Wait up to 1 minute for a swap to land
+
+  // Estimates priority fees and enforces the daily fee budget, and serves token
+  // metadata from the local registry, if configured
+  constructor(
+    private priorityFeeService?: PriorityFeeService,
+    private tokenRegistry?: TokenRegistry
+  ) {}
+
   private async fetchWithRetry(
     url: string,
     options: RequestInit = {},
@@ -57,35 +97,139 @@ export class JupiterService {
     throw lastError;
   }
 
-  public async getQuote(params: {
-    inputMint: string;
-    outputMint: string;
-    amount: number;
-  }): Promise<any> {
+  // Slippage defaults to 10% and routing to direct routes for better reliability
+  public async getQuote(params: QuoteParams): Promise<any> {
     const queryParams = new URLSearchParams({
       inputMint: params.inputMint,
       outputMint: params.outputMint,
       amount: params.amount.toString(),
-      slippageBps: "1000", // 10% slippage
-      onlyDirectRoutes: "true", // For better reliability
+      slippageBps: (params.slippageBps ?? 1000).toString(),
+      onlyDirectRoutes: (params.onlyDirectRoutes ?? true).toString(),
     });
 
     const url = `${this.QUOTE_API}/quote?${queryParams}`;
 
     const response = await this.fetchWithRetry(url);
+
+    // Hard cap on price impact, the caller treats a refused quote like a failed one
+    if (response && params.maxPriceImpactPct !== undefined) {
+      const priceImpact = getPriceImpactPercentage(response);
+      if (priceImpact > params.maxPriceImpactPct) {
+        console.warn(
+          `❌ Quote refused for ${params.inputMint} -> ${params.outputMint}: price impact ${priceImpact.toFixed(2)}% exceeds cap of ${params.maxPriceImpactPct}%`
+        );
+        return null;
+      }
+    }
+
+    if (response) this.quoteParams.set(response, params);
     return response;
   }
 
   public async executeSwap(
     quote: any,
     walletClient: SolanaWalletClient,
+    urgency: SwapUrgency = "medium",
     maxRetries = 3
-  ): Promise<{
-    txid: string;
-    inputAmount: number;
-    outputAmount: number;
-  } | null> {
+  ): Promise<SwapResponse | null> {
+    return this.sendSwap(
+      quote,
+      walletClient,
+      (swapQuote, priorityFee) =>
+        this.buildSwapTransaction(
+          swapQuote,
+          walletClient.getAddress(),
+          priorityFee
+        ),
+      (staleQuote) => this.requote(staleQuote),
+      urgency,
+      maxRetries
+    );
+  }
+
+  // Quote a swap again with the parameters of its original quote
+  private async requote(quote: any): Promise<any> {
+    const params = this.quoteParams.get(quote);
+    return params ? this.getQuote(params) : null;
+  }
+
+  // Get the swap transaction for a quote from Jupiter, base64 encoded
+  private async buildSwapTransaction(
+    quote: any,
+    walletAddress: string,
+    priorityFee: PriorityFee | null
+  ): Promise<string | null> {
+    const { swapTransaction } = await this.fetchWithRetry(
+      `${this.QUOTE_API}/swap`,
+      {
+        method: "POST",
+        body: JSON.stringify({
+          quoteResponse: quote,
+          userPublicKey: walletAddress,
+          wrapAndUnwrapSol: true,
+          ...(priorityFee
+            ? { prioritizationFeeLamports: priorityFee.lamports }
+            : { computeUnitPriceMicroLamports: "auto" }),
+          dynamicComputeUnitLimit: true,
+          // Always get fresh blockhash
+          skipUserConfirmation: true,
+        }),
+      }
+    );
+    return swapTransaction || null;
+  }
+
+  /**
+   * Send a swap transaction built by a venue and read its fill. The
+   * transaction is rebuilt with a fresh blockhash for every attempt and
+   * simulated before sending
+   *
+   * Venues that build their own transactions, e.g. Raydium, share this path
+   * so every swap gets the same fee budget, simulation, retries and
+   * confirmation
+   *
+   * A program error, e.g. the price moving past the slippage tolerance or a
+   * pool changing under the route, is retried with a fresh quote from the
+   * venue. Insufficient funds, missing accounts and compute limit failures
+   * are final
+   *
+   * @param quote - The venue's quote, with inputMint, outputMint, inAmount and outAmount
+   * @param walletClient - Wallet that signs and sends the transaction
+   * @param buildTransaction - Builds the base64 transaction for a quote and priority fee
+   * @param requote - Quotes the swap again when its quote went stale
+   * @param urgency - Priority fee level
+   * @param maxRetries - Attempts after the first one
+   */
+  public async sendSwap(
+    quote: any,
+    walletClient: SolanaWalletClient,
+    buildTransaction: SwapTransactionBuilder,
+    requote: SwapRequoter,
+    urgency: SwapUrgency = "medium",
+    maxRetries = 3
+  ): Promise<SwapResponse | null> {
     let retryCount = 0;
+    let txid: string | null = null;
+
+    const isBuy = quote.inputMint === this.WRAPPED_SOL;
+    let priorityFee = null;
+    if (this.priorityFeeService) {
+      // Exits still go through once the budget is spent, without a priority fee
+      if (isBuy && !this.priorityFeeService.hasFeeBudget()) {
+        console.warn(
+          `⛽ Daily fee budget exhausted, skipping buy of ${quote.outputMint}`
+        );
+        return null;
+      }
+      priorityFee = await this.priorityFeeService.getPriorityFee(
+        urgency,
+        isBuy ? quote.outputMint : quote.inputMint
+      );
+      console.log(
+        `⛽ Priority fee (${urgency}): ${priorityFee.lamports} lamports ` +
+          `(${priorityFee.microLamports} micro-lamports/CU)`
+      );
+    }
     
     while (retryCount <= maxRetries) {
       try {
@@ -95,23 +239,8 @@ export class JupiterService {
           priceImpact: quote.priceImpactPct,
         });
 
-        // Get transaction data from Jupiter with fresh blockhash
-        const { swapTransaction } = await this.fetchWithRetry(
-          `${this.QUOTE_API}/swap`,
-          {
-            method: "POST",
-            body: JSON.stringify({
-              quoteResponse: quote,
-              userPublicKey: walletClient.getAddress(),
-              wrapAndUnwrapSol: true,
-              computeUnitPriceMicroLamports: "auto",
-              dynamicComputeUnitLimit: true,
-              asLegacyTransaction: true,
-              // Always get fresh blockhash
-              skipUserConfirmation: true,
-            }),
-          }
-        );
+        // Get transaction data from the venue with fresh blockhash
+        const swapTransaction = await buildTransaction(quote, priorityFee);
 
         if (!swapTransaction) {
           console.error("No swap transaction received");
@@ -130,30 +259,73 @@ export class JupiterService {
         // Decode base64 transaction data
         const transactionData = Buffer.from(swapTransaction, "base64");
 
-        // Deserialize into Transaction
-        const transaction = Transaction.from(transactionData);
+        // Deserialize the v0 transaction and resolve its address lookup tables
+        const transaction = VersionedTransaction.deserialize(transactionData);
+        const addressLookupTableAddresses =
+          transaction.message.addressTableLookups.map((lookup) =>
+            lookup.accountKey.toBase58()
+          );
+        const addressLookupTableAccounts =
+          await this.getAddressLookupTableAccounts(addressLookupTableAddresses);
+        const { instructions } = TransactionMessage.decompile(
+          transaction.message,
+          { addressLookupTableAccounts }
+        );
 
-        // Convert to format expected by GOAT SDK
-        const goatTransaction = {
-          instructions: transaction.instructions,
-          // No lookup tables since we're using legacy transactions
+        // Convert to format expected by GOAT SDK, which signs and sends a v0 transaction
+        const goatTransaction: SolanaTransaction = {
+          instructions,
+          addressLookupTableAddresses,
         };
 
         console.log(
           "Sending transaction with instructions count:",
-          transaction.instructions.length
+          instructions.length,
+          "lookup tables:",
+          addressLookupTableAddresses.length
         );
 
+        // Simulate first so failing swaps don't cost fees or burn retries
+        const simulation = await this.getConnection().simulateTransaction(
+          transaction,
+          { sigVerify: false, replaceRecentBlockhash: true }
+        );
+        if (simulation.value.err) {
+          const simulationError = this.formatSwapError(
+            `Simulation failed: ${JSON.stringify(simulation.value.err)}`,
+            simulation.value.logs
+          );
+          console.error(
+            `Swap simulation failed (attempt ${retryCount + 1}/${maxRetries + 1}):`,
+            simulationError
+          );
+
+          // Deterministic failures would fail the same way on every retry
+          if (
+            this.isDeterministicSwapError(simulationError) ||
+            retryCount >= maxRetries
+          ) {
+            return this.rejectedSwap(simulationError);
+          }
+
+          // The next attempt swaps at the current price and route
+          if (this.isStaleQuoteSwapError(simulationError)) {
+            const freshQuote = await this.refreshQuote(quote, requote);
+            if (!freshQuote) return this.rejectedSwap(simulationError);
+            quote = freshQuote;
+          }
+
+          retryCount++;
+          await new Promise(resolve => setTimeout(resolve, 2000 * retryCount));
+          continue;
+        }
+
         // Execute using wallet client
         const result = await walletClient.sendTransaction(goatTransaction);
 
         console.log("Transaction sent:", result);
-
-        return {
-          txid: result.hash,
-          inputAmount: quote.inAmount,
-          outputAmount: quote.outAmount,
-        };
+        txid = result.hash;
+        break;
       } catch (error: any) {
         const errorMessage = error?.message || '';
         const isBlockhashError = 
@@ -161,16 +333,29 @@ export class JupiterService {
           errorMessage.includes("blockhash") ||
           errorMessage.includes("0x1") || // Solana blockhash error code
           errorMessage.includes("expired");
+        const swapError = this.formatSwapError(errorMessage, error?.logs);
+        const isDeterministic = this.isDeterministicSwapError(swapError);
         
         console.error(`Swap execution failed (attempt ${retryCount + 1}/${maxRetries + 1}):`, error);
         console.error("Error details:", {
           name: error?.name,
           message: error?.message,
           isBlockhashError,
+          isDeterministic,
         });
         
+        // Don't retry errors that will fail the same way again
+        if (isDeterministic) return this.rejectedSwap(swapError);
+
         // If we've run out of retries, return null
         if (retryCount >= maxRetries) return null;
+
+        // Preflight caught a program error, retry at a fresh quote
+        if (this.isStaleQuoteSwapError(swapError)) {
+          const freshQuote = await this.refreshQuote(quote, requote);
+          if (!freshQuote) return this.rejectedSwap(swapError);
+          quote = freshQuote;
+        }
         
         // Increase retry count
         retryCount++;
@@ -185,8 +370,348 @@ export class JupiterService {
         await new Promise(resolve => setTimeout(resolve, delayMs));
       }
     }
-    
-    return null;
+
+    if (!txid) return null;
+
+    // Confirm the swap and read what was actually filled. Never retried, the
+    // transaction has already been sent
+    try {
+      const fill = await this.getSwapFill(
+        txid,
+        walletClient.getAddress(),
+        quote
+      );
+      return { ...fill, priorityFee: priorityFee?.lamports ?? null };
+    } catch (error) {
+      console.error(`Failed to confirm swap ${txid}:`, error);
+      return {
+        txid,
+        inputAmount: Number(quote.inAmount),
+        outputAmount: Number(quote.outAmount),
+        fee: 0,
+        priorityFee: priorityFee?.lamports ?? null,
+        effectivePrice: null,
+        status: "UNCONFIRMED",
+        error: (error as Error)?.message,
+      };
+    }
+  }
+
+  /**
+   * Check once whether a previously sent swap landed, and read its fill
+   *
+   * @param txid - Signature of the swap
+   * @param walletAddress - Wallet that sent it
+   * @param quote - The swap's mints and quoted amounts
+   * @returns CONFIRMED or FAILED once known, UNCONFIRMED while it isn't
+   */
+  public async confirmSwap(
+    txid: string,
+    walletAddress: string,
+    quote: {
+      inputMint: string;
+      outputMint: string;
+      inAmount: number;
+      outAmount: number;
+    }
+  ): Promise<SwapResponse> {
+    return this.getSwapFill(txid, walletAddress, quote, 0);
+  }
+
+  /**
+   * Build the swap transaction for a quote and simulate it without sending.
+   * Used to check that a route would execute, e.g. that a token can be sold
+   */
+  public async simulateSwap(
+    quote: any,
+    walletClient: SolanaWalletClient
+  ): Promise<SwapSimulation> {
+    return this.simulateSwapTransaction(quote, (swapQuote) =>
+      this.buildSwapTransaction(swapQuote, walletClient.getAddress(), null)
+    );
+  }
+
+  /**
+   * Build a venue's swap transaction and simulate it without sending
+   *
+   * @param quote - The venue's quote
+   * @param buildTransaction - Builds the base64 transaction, without a priority fee
+   */
+  public async simulateSwapTransaction(
+    quote: any,
+    buildTransaction: SwapTransactionBuilder
+  ): Promise<SwapSimulation> {
+    try {
+      const swapTransaction = await buildTransaction(quote, null);
+      if (!swapTransaction) {
+        return { success: false, error: "No swap transaction received" };
+      }
+
+      const transaction = VersionedTransaction.deserialize(
+        Buffer.from(swapTransaction, "base64")
+      );
+      const simulation = await this.getConnection().simulateTransaction(
+        transaction,
+        { sigVerify: false, replaceRecentBlockhash: true }
+      );
+      if (simulation.value.err) {
+        return {
+          success: false,
+          error: this.formatSwapError(
+            `Simulation failed: ${JSON.stringify(simulation.value.err)}`,
+            simulation.value.logs
+          ),
+        };
+      }
+      return { success: true };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: this.formatSwapError(error?.message || String(error), error?.logs),
+      };
+    }
+  }
+
+  // Errors that fail the same way on every attempt: insufficient balance,
+  // missing accounts and compute limit failures
+  private isDeterministicSwapError(error: string): boolean {
+    const message = error.toLowerCase();
+    return [
+      "insufficient funds",
+      "insufficient lamports",
+      "insufficientfunds",
+      "accountnotfound",
+      "computational budget exceeded",
+      "computationalbudgetexceeded",
+      "exceeded cus meter",
+    ].some((pattern) => message.includes(pattern));
+  }
+
+  // Program errors raised because prices or pools moved since the quote, e.g.
+  // Jupiter's SlippageToleranceExceeded (custom program error 0x1771)
+  private isStaleQuoteSwapError(error: string): boolean {
+    const message = error.toLowerCase();
+    return ["instructionerror", "custom program error", "slippage"].some(
+      (pattern) => message.includes(pattern)
+    );
+  }
+
+  // Quote a swap again after its quote went stale, null if there is no route
+  private async refreshQuote(
+    quote: any,
+    requote: SwapRequoter
+  ): Promise<any> {
+    try {
+      const freshQuote = await requote(quote);
+      if (freshQuote) {
+        console.log(
+          `🔄 Re-quoted ${quote.inputMint} -> ${quote.outputMint}: ${quote.outAmount} -> ${freshQuote.outAmount}`
+        );
+      }
+      return freshQuote;
+    } catch (error) {
+      console.error("Error re-quoting swap:", error);
+      return null;
+    }
+  }
+
+  // Attach the last program logs to an error message
+  private formatSwapError(message: string, logs?: string[] | null): string {
+    if (!logs || logs.length === 0) return message;
+    return `${message}\n${logs.slice(-10).join("\n")}`;
+  }
+
+  // Result for a swap that was refused before sending, so no fee was paid
+  private rejectedSwap(error: string): SwapResponse {
+    return {
+      txid: "",
+      inputAmount: 0,
+      outputAmount: 0,
+      fee: 0,
+      effectivePrice: null,
+      status: "REJECTED",
+      error,
+    };
+  }
+
+  /**
+   * Wait for a swap to confirm and read the actual fill from the wallet's
+   * pre/post balances in the confirmed transaction
+   *
+   * A swap that isn't seen in time is looked up by signature status. Only a
+   * swap whose outcome is still unknown after that is UNCONFIRMED, and it
+   * must not be treated as a fill
+   */
+  private async getSwapFill(
+    txid: string,
+    walletAddress: string,
+    quote: any,
+    timeoutMs: number = this.CONFIRMATION_TIMEOUT
+  ): Promise<SwapResponse> {
+    const connection = this.getConnection();
+    const deadline = Date.now() + timeoutMs;
+
+    let transaction = null;
+    do {
+      transaction = await connection.getTransaction(txid, {
+        commitment: "confirmed",
+        maxSupportedTransactionVersion: 0,
+      });
+      if (transaction || Date.now() >= deadline) break;
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+    } while (Date.now() < deadline);
+
+    if (!transaction?.meta) {
+      const { value } = await connection.getSignatureStatuses([txid], {
+        searchTransactionHistory: true,
+      });
+      const signatureStatus = value[0];
+      if (signatureStatus?.err) {
+        console.error(`❌ Swap ${txid} failed on-chain:`, signatureStatus.err);
+        return {
+          txid,
+          inputAmount: 0,
+          outputAmount: 0,
+          fee: 0,
+          effectivePrice: null,
+          status: "FAILED",
+          error: JSON.stringify(signatureStatus.err),
+        };
+      }
+
+      console.warn(
+        `⚠️ Swap ${txid} not confirmed yet (${
+          signatureStatus?.confirmationStatus || "not found"
+        }), outcome unknown`
+      );
+      return {
+        txid,
+        inputAmount: Number(quote.inAmount),
+        outputAmount: Number(quote.outAmount),
+        fee: 0,
+        effectivePrice: null,
+        status: "UNCONFIRMED",
+        error: signatureStatus ? undefined : "signature not found",
+      };
+    }
+
+    const { meta } = transaction;
+    if (meta.err) {
+      console.error(`❌ Swap ${txid} failed on-chain:`, meta.err);
+      return {
+        txid,
+        inputAmount: 0,
+        outputAmount: 0,
+        fee: meta.fee,
+        effectivePrice: null,
+        status: "FAILED",
+        error: JSON.stringify(meta.err),
+      };
+    }
+
+    // Native SOL change of the wallet, excluding the network fee. With
+    // wrapAndUnwrapSol this is the swapped SOL plus any account rent paid
+    const accountKeys = transaction.transaction.message.getAccountKeys({
+      accountKeysFromLookups: meta.loadedAddresses,
+    });
+    const walletIndex = accountKeys.staticAccountKeys.findIndex(
+      (key) => key.toBase58() === walletAddress
+    );
+    const solDelta =
+      walletIndex >= 0
+        ? meta.postBalances[walletIndex] - meta.preBalances[walletIndex] + meta.fee
+        : 0;
+
+    // Rent locked in token accounts the swap created for the wallet, e.g. on
+    // a token's first buy. It is not part of the swap, only the wrapped SOL
+    // of a new wSOL account is
+    let accountRent = 0;
+    for (const balance of meta.postTokenBalances || []) {
+      if (balance.owner !== walletAddress) continue;
+      const existed = (meta.preTokenBalances || []).some(
+        (pre) => pre.accountIndex === balance.accountIndex
+      );
+      if (existed || meta.preBalances[balance.accountIndex] > 0) continue;
+      const wrapped =
+        balance.mint === this.WRAPPED_SOL
+          ? Number(balance.uiTokenAmount.amount)
+          : 0;
+      accountRent += meta.postBalances[balance.accountIndex] - wrapped;
+    }
+    const swappedSol = solDelta + accountRent;
+
+    // Token change of the wallet's accounts for a mint
+    const getTokenDelta = (mint: string) => {
+      let delta = 0;
+      let decimals = 9;
+      for (const balance of meta.postTokenBalances || []) {
+        if (balance.owner !== walletAddress || balance.mint !== mint) continue;
+        delta += Number(balance.uiTokenAmount.amount);
+        decimals = balance.uiTokenAmount.decimals;
+      }
+      for (const balance of meta.preTokenBalances || []) {
+        if (balance.owner !== walletAddress || balance.mint !== mint) continue;
+        delta -= Number(balance.uiTokenAmount.amount);
+        decimals = balance.uiTokenAmount.decimals;
+      }
+      return { delta, decimals };
+    };
+
+    const isBuy = quote.inputMint === this.WRAPPED_SOL;
+    const token = getTokenDelta(isBuy ? quote.outputMint : quote.inputMint);
+    const solAmount = Math.abs(swappedSol);
+    const tokenAmount = Math.abs(token.delta);
+
+    // Filled price in USD per token, from the SOL spent or received
+    let effectivePrice: number | null = null;
+    const solPrice = await this.getCurrentPrice(this.WRAPPED_SOL);
+    if (solPrice && tokenAmount > 0) {
+      effectivePrice =
+        ((solAmount / 1e9) * solPrice) / (tokenAmount / 10 ** token.decimals);
+    }
+
+    console.log(
+      `✅ Swap ${txid} confirmed: ${isBuy ? "spent" : "received"} ${solAmount} lamports, ${
+        isBuy ? "received" : "sold"
+      } ${tokenAmount} tokens, fee ${meta.fee}${
+        accountRent > 0 ? `, ${accountRent} lamports of account rent` : ""
+      }`
+    );
+
+    return {
+      txid,
+      inputAmount: isBuy ? solAmount : tokenAmount,
+      outputAmount: isBuy ? tokenAmount : solAmount,
+      fee: meta.fee,
+      effectivePrice,
+      status: "CONFIRMED",
+    };
+  }
+
+  private getConnection(): Connection {
+    if (!this.connection) {
+      this.connection = new Connection(
+        process.env.SOLANA_RPC_URL || "https://api.mainnet-beta.solana.com",
+        "confirmed"
+      );
+    }
+    return this.connection;
+  }
+
+  private async getAddressLookupTableAccounts(
+    addresses: string[]
+  ): Promise<AddressLookupTableAccount[]> {
+    return Promise.all(
+      addresses.map(async (address) => {
+        const { value } = await this.getConnection().getAddressLookupTable(
+          new PublicKey(address)
+        );
+        if (!value) {
+          throw new Error(`Address lookup table ${address} not found`);
+        }
+        return value;
+      })
+    );
   }
 
   public async getTokenInfo(addressOrPool: string): Promise<TokenInfo | null> {
@@ -203,48 +728,51 @@ export class JupiterService {
         return cachedData.info;
       }
 
-      // Try to get the token from Jupiter token list first
+      // Try to get the token from the local registry (or Jupiter token list) first
       try {
-        // The token API returns all tokens in one call
-        const allTokensResponse = await this.fetchWithRetry(this.TOKENS_API);
+        let tokenData: any = null;
+        if (this.tokenRegistry) {
+          tokenData = await this.tokenRegistry.resolve(addressOrPool);
+        } else {
+          // The token API returns all tokens in one call
+          const allTokensResponse = await this.getTokenList();
 
-        if (allTokensResponse && Array.isArray(allTokensResponse)) {
           // Find our token in the list
-          const tokenData = allTokensResponse.find(
+          tokenData = allTokensResponse.find(
             (token) =>
               token.address === addressOrPool ||
               token.symbol?.toLowerCase() === addressOrPool.toLowerCase()
           );
+        }
 
-          if (tokenData) {
-            // Get the latest price using our getCurrentPrice method
-            const currentPrice = await this.getCurrentPrice(tokenData.address);
-
-            // Use the price we received, or fall back to token data price or null
-            const finalPrice =
-              currentPrice !== null ? currentPrice : tokenData.price || null;
-
-            const tokenInfo = {
-              address: tokenData.address,
-              symbol: tokenData.symbol || "UNKNOWN",
-              name: tokenData.name || tokenData.symbol || "Unknown Token",
-              price: finalPrice,
-              decimals: tokenData.decimals || 9,
-              liquidity: tokenData.liquidity || 0,
-              volume24h: tokenData.volume24h || 0,
-              marketCap: tokenData.marketCap || 0,
-              holders: tokenData.holders || 0,
-              isValid: finalPrice !== null, // Only valid if price is available
-            };
-
-            // Update cache
-            this.tokenInfoCache.set(addressOrPool, {
-              info: tokenInfo,
-              timestamp: now,
-            });
-
-            return tokenInfo;
-          }
+        if (tokenData) {
+          // Get the latest price using our getCurrentPrice method
+          const currentPrice = await this.getCurrentPrice(tokenData.address);
+
+          // Use the price we received, or fall back to token data price or null
+          const finalPrice =
+            currentPrice !== null ? currentPrice : tokenData.price || null;
+
+          const tokenInfo = {
+            address: tokenData.address,
+            symbol: tokenData.symbol || "UNKNOWN",
+            name: tokenData.name || tokenData.symbol || "Unknown Token",
+            price: finalPrice,
+            decimals: tokenData.decimals || 9,
+            liquidity: tokenData.liquidity || 0,
+            volume24h: tokenData.volume24h || 0,
+            marketCap: tokenData.marketCap || 0,
+            holders: tokenData.holders || 0,
+            isValid: finalPrice !== null, // Only valid if price is available
+          };
+
+          // Update cache
+          this.tokenInfoCache.set(addressOrPool, {
+            info: tokenInfo,
+            timestamp: now,
+          });
+
+          return tokenInfo;
         }
       } catch (error) {
         const tokenApiError = error as Error;
@@ -390,8 +918,105 @@ export class JupiterService {
       return null;
     }
   }
+
+  /**
+   * Get the current prices of several tokens with one price API request per
+   * PRICE_BATCH_SIZE tokens, filling the price cache for getCurrentPrice
+   *
+   * @param tokenAddresses - The tokens to price, cached prices are reused
+   * @returns Prices by token address, tokens without a price are left out
+   */
+  public async getPrices(
+    tokenAddresses: string[]
+  ): Promise<Map<string, number>> {
+    const prices = new Map<string, number>();
+    const now = Date.now();
+
+    const missing: string[] = [];
+    for (const tokenAddress of new Set(tokenAddresses)) {
+      const cachedData = this.priceCache.get(tokenAddress);
+      if (cachedData && now - cachedData.timestamp < this.PRICE_CACHE_TTL) {
+        prices.set(tokenAddress, cachedData.price);
+      } else {
+        missing.push(tokenAddress);
+      }
+    }
+
+    for (let i = 0; i < missing.length; i += this.PRICE_BATCH_SIZE) {
+      const batch = missing.slice(i, i + this.PRICE_BATCH_SIZE);
+      try {
+        const url = `${this.PRICE_API}?ids=${batch.join(",")}&_t=${now}`; // Cache-busting timestamp
+        const response = await this.fetchWithRetry(url);
+
+        for (const tokenAddress of batch) {
+          const priceData = response?.data?.[tokenAddress];
+          if (!priceData?.price) continue;
+
+          const price = parseFloat(priceData.price);
+          this.priceCache.set(tokenAddress, { price, timestamp: now });
+          prices.set(tokenAddress, price);
+        }
+      } catch (error) {
+        console.error(`Error getting prices for ${batch.length} tokens:`, error);
+      }
+    }
+
+    return prices;
+  }
+
+  // Fetch the full token list at most once per TOKEN_INFO_CACHE_TTL
+  private async getTokenList(): Promise<any[]> {
+    const now = Date.now();
+    if (
+      this.tokenListCache &&
+      now - this.tokenListCache.timestamp < this.TOKEN_INFO_CACHE_TTL
+    ) {
+      return this.tokenListCache.tokens;
+    }
+
+    const tokens = await this.fetchWithRetry(this.TOKENS_API);
+    if (!Array.isArray(tokens)) return [];
+
+    this.tokenListCache = { tokens, timestamp: now };
+    return tokens;
+  }
+
+  /**
+   * Get when the cached price of a token was fetched, null if not cached
+   */
+  public getPriceTimestamp(tokenAddress: string): number | null {
+    return this.priceCache.get(tokenAddress)?.timestamp ?? null;
+  }
 }
 
-export const createJupiterService = () => {
-  return new JupiterService();
+// Jupiter reports price impact as a fraction (0.05 = 5%), convert it to a percentage
+export const getPriceImpactPercentage = (quote: any): number => {
+  return Math.abs(Number(quote?.priceImpactPct) || 0) * 100;
+};
+
+// Swap failed either on-chain or in pre-flight simulation
+export const isSwapFailed = (result: SwapResponse): boolean => {
+  return result.status === "FAILED" || result.status === "REJECTED";
+};
+
+// Builds a venue's swap transaction for a quote, base64 encoded, paying the
+// priority fee if one was estimated. Null when the venue returned no transaction
+export type SwapTransactionBuilder = (
+  quote: any,
+  priorityFee: PriorityFee | null
+) => Promise<string | null>;
+
+// Quotes a swap again at the current price, null when there is no acceptable route
+export type SwapRequoter = (quote: any) => Promise<any>;
+
+// Swap was sent but whether it landed is unknown, it is not a fill
+export const isSwapUnconfirmed = (result: SwapResponse): boolean => {
+  return result.status === "UNCONFIRMED";
+};
+
+export const createJupiterService = (
+  priorityFeeService?: PriorityFeeService,
+  tokenRegistry?: TokenRegistry
+) => {
+  return new JupiterService(priorityFeeService, tokenRegistry);
 };
@@ -0,0 +1,124 @@
+// src/services/MockSwapVenue.test.ts
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import Database from "better-sqlite3";
+import { SolanaWalletClient } from "../types/trade";
+import { createJupiterService } from "./JupiterService";
+import { createMockSwapVenue } from "./MockSwapVenue";
+import { createPendingOrderManager } from "./PendingOrderManager";
+import { createPositionManager, PositionManager } from "./PositionManager";
+import { createSwapRouter } from "./SwapRouter";
+
+const TOKEN = "MockToken1111111111111111111111111111111111";
+const WALLET = "MockWallet111111111111111111111111111111111";
+
+// URLs the flow tried to fetch, there must be none
+const fetchedUrls: string[] = [];
+const originalFetch = globalThis.fetch;
+
+// The mock venue holds the wallet's SOL, nothing may ask the chain for it
+const walletClient = {
+  getAddress: () => WALLET,
+  balanceOf: async () => {
+    throw new Error("balanceOf called with an offline venue");
+  },
+  sendTransaction: async () => {
+    throw new Error("sendTransaction called with an offline venue");
+  },
+} as unknown as SolanaWalletClient;
+
+let positionManager: PositionManager;
+
+before(() => {
+  globalThis.fetch = async (input: any) => {
+    fetchedUrls.push(String(input?.url ?? input));
+    throw new Error("Network access in an offline test");
+  };
+});
+
+after(() => {
+  positionManager?.stopBalanceHistoryRecording();
+  globalThis.fetch = originalFetch;
+});
+
+test("buys and sells through the mock venue without network access", async () => {
+  const db = new Database(":memory:");
+  const jupiterService = createJupiterService();
+  const venue = createMockSwapVenue();
+  const swapRouter = createSwapRouter([venue]);
+
+  positionManager = createPositionManager(
+    db,
+    jupiterService,
+    walletClient,
+    swapRouter
+  );
+  const pendingOrderManager = createPendingOrderManager(
+    db,
+    jupiterService,
+    walletClient,
+    positionManager,
+    swapRouter
+  );
+
+  // Buy: a limit entry above the mock price fills on the next check
+  const startBalance = await swapRouter.getBalance!(WALLET);
+  const entryPrice = (await swapRouter.getPrice!(TOKEN))!;
+  pendingOrderManager.createOrder({
+    tokenAddress: TOKEN,
+    triggerPrice: entryPrice * 1.1,
+    size: 1e9,
+    expiresAt: Date.now() + 60_000,
+  });
+  await pendingOrderManager.checkPendingOrders();
+
+  const position = await positionManager.getPositionByToken(TOKEN);
+  assert.ok(position, "the limit entry opened a position");
+  const [buy] = venue.swaps;
+  assert.equal(position.amount, buy.outputAmount);
+  assert.ok(Math.abs(position.entryPrice - entryPrice) < 1e-9);
+  assert.equal(
+    await swapRouter.getBalance!(WALLET),
+    startBalance - buy.inputAmount - buy.fee
+  );
+
+  // The price moves up 25% and the position is repriced from the venue
+  venue.setRate(TOKEN, 800);
+  await positionManager.updatePricesAndProfitLoss();
+  const repriced = await positionManager.getPositionByToken(TOKEN);
+  assert.ok(repriced);
+  assert.ok(Math.abs(repriced.currentPrice! - entryPrice * 1.25) < 1e-9);
+
+  // Sell the whole position back to SOL
+  assert.equal(
+    await positionManager.closePosition(position.id, "MANUAL"),
+    true
+  );
+  const sell = venue.swaps[1];
+  assert.equal(sell.inputAmount, buy.outputAmount);
+  assert.equal(
+    await swapRouter.getBalance!(WALLET),
+    startBalance - buy.inputAmount - buy.fee + sell.outputAmount - sell.fee
+  );
+
+  const closed = db
+    .prepare(`SELECT status FROM positions WHERE id = ?`)
+    .get(position.id) as { status: string };
+  assert.equal(closed.status, "CLOSED");
+
+  const sellTrade = db
+    .prepare(
+      `SELECT exit_price, profit_loss, sol_amount FROM trades
+       WHERE token_address = ? AND exit_price IS NOT NULL`
+    )
+    .get(TOKEN) as {
+    exit_price: number;
+    profit_loss: number;
+    sol_amount: number;
+  };
+  assert.equal(sellTrade.sol_amount, sell.outputAmount);
+  assert.ok(Math.abs(sellTrade.exit_price - entryPrice * 1.25) < 1e-9);
+  assert.ok(sellTrade.profit_loss > 0);
+
+  assert.deepEqual(fetchedUrls, []);
+});
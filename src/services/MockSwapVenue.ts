@@ -0,0 +1,162 @@
+// src/services/MockSwapVenue.ts
+import {
+  QuoteParams,
+  SolanaWalletClient,
+  SwapResponse,
+  SwapSimulation,
+  SwapUrgency,
+  SwapVenue,
+} from "../types/trade";
+import { randomUUID } from "../utils/uuid";
+
+// Raw token units received per lamport when no rate is set for a token
+const DEFAULT_TOKENS_PER_LAMPORT = 1000;
+// Base network fee of a single-signature transaction, in lamports
+const MOCK_NETWORK_FEE = 5000;
+// SOL the mock wallet starts with, in lamports
+const DEFAULT_MOCK_BALANCE = 10 * 1e9;
+// USD price of SOL at the mock venue
+const MOCK_SOL_PRICE_USD = 150;
+// Mock tokens are priced as if they had the default 9 decimals
+const MOCK_TOKEN_DECIMALS = 9;
+
+/**
+ * Local swap venue that fills every quote at a fixed rate without network
+ * access, so the buy and sell flows can run in tests
+ *
+ * The venue is its own market: token prices follow its rates and it holds
+ * the wallet's SOL, debited and credited by every swap.
+ */
+export class MockSwapVenue implements SwapVenue {
+  readonly name = "mock";
+  readonly offline = true;
+
+  private readonly WRAPPED_SOL = "So11111111111111111111111111111111111111112";
+
+  // Raw token units per lamport, per token mint
+  private rates: Map<string, number> = new Map();
+
+  // The wallet's SOL, in lamports
+  private balance = DEFAULT_MOCK_BALANCE;
+
+  // Swaps executed so far, most recent last
+  readonly swaps: SwapResponse[] = [];
+
+  /**
+   * Set the rate for a token, e.g. to move its price between buy and sell
+   *
+   * @param tokenAddress - The token mint
+   * @param tokensPerLamport - Raw token units per lamport
+   */
+  setRate(tokenAddress: string, tokensPerLamport: number): void {
+    this.rates.set(tokenAddress, tokensPerLamport);
+  }
+
+  /**
+   * Set the wallet's SOL balance
+   *
+   * @param lamports - The balance in lamports
+   */
+  setBalance(lamports: number): void {
+    this.balance = lamports;
+  }
+
+  async getBalance(walletAddress: string): Promise<number> {
+    return this.balance;
+  }
+
+  async getPrice(tokenAddress: string): Promise<number | null> {
+    if (tokenAddress === this.WRAPPED_SOL) return MOCK_SOL_PRICE_USD;
+    return this.priceAt(this.getRate(tokenAddress));
+  }
+
+  async getQuote(params: QuoteParams): Promise<any> {
+    const isBuy = params.inputMint === this.WRAPPED_SOL;
+    const tokenAddress = isBuy ? params.outputMint : params.inputMint;
+    const rate = this.getRate(tokenAddress);
+
+    const outAmount = Math.floor(
+      isBuy ? params.amount * rate : params.amount / rate
+    );
+    if (outAmount <= 0) return null;
+
+    return {
+      inputMint: params.inputMint,
+      outputMint: params.outputMint,
+      inAmount: params.amount.toString(),
+      outAmount: outAmount.toString(),
+      otherAmountThreshold: outAmount.toString(),
+      swapMode: "ExactIn",
+      slippageBps: params.slippageBps ?? 0,
+      priceImpactPct: "0",
+      routePlan: [],
+    };
+  }
+
+  async executeSwap(
+    quote: any,
+    walletClient: SolanaWalletClient,
+    urgency: SwapUrgency = "medium"
+  ): Promise<SwapResponse | null> {
+    const isBuy = quote.inputMint === this.WRAPPED_SOL;
+    const inputAmount = Number(quote.inAmount);
+    const outputAmount = Number(quote.outAmount);
+    const lamports = isBuy ? inputAmount : outputAmount;
+    const tokens = isBuy ? outputAmount : inputAmount;
+
+    // Spending more SOL than the wallet holds fails like it would on-chain
+    const balanceChange = (isBuy ? -lamports : lamports) - MOCK_NETWORK_FEE;
+    if (this.balance + balanceChange < 0) {
+      return {
+        txid: "",
+        inputAmount: 0,
+        outputAmount: 0,
+        fee: 0,
+        effectivePrice: null,
+        status: "REJECTED",
+        error: "insufficient lamports",
+      };
+    }
+    this.balance += balanceChange;
+
+    const result: SwapResponse = {
+      txid: `mock-${randomUUID()}`,
+      inputAmount,
+      outputAmount,
+      fee: MOCK_NETWORK_FEE,
+      priorityFee: 0,
+      effectivePrice: this.priceAt(tokens / lamports),
+      status: "CONFIRMED",
+    };
+    this.swaps.push(result);
+
+    const wallet = walletClient.getAddress();
+    console.log(
+      `🧪 Mock swap ${result.txid} (${urgency}) for ${wallet}:`,
+      `${quote.inAmount} ${quote.inputMint} -> ${quote.outAmount} ${quote.outputMint}`
+    );
+    return result;
+  }
+
+  // Every quote fills, so every simulation succeeds
+  async simulateSwap(
+    quote: any,
+    walletClient: SolanaWalletClient
+  ): Promise<SwapSimulation> {
+    return { success: true };
+  }
+
+  private getRate(tokenAddress: string): number {
+    return this.rates.get(tokenAddress) ?? DEFAULT_TOKENS_PER_LAMPORT;
+  }
+
+  // USD price per whole token at a rate of raw token units per lamport
+  private priceAt(tokensPerLamport: number): number {
+    const tokensPerSol = (tokensPerLamport * 1e9) / 10 ** MOCK_TOKEN_DECIMALS;
+    return MOCK_SOL_PRICE_USD / tokensPerSol;
+  }
+}
+
+export const createMockSwapVenue = () => {
+  return new MockSwapVenue();
+};
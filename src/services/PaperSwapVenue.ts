@@ -0,0 +1,155 @@
+// src/services/PaperSwapVenue.ts
+import Database from "better-sqlite3";
+import {
+  QuoteParams,
+  SolanaWalletClient,
+  SwapResponse,
+  SwapSimulation,
+  SwapUrgency,
+  SwapVenue,
+} from "../types/trade";
+import { JupiterService } from "./JupiterService";
+import { adjustPaperBalance, getPaperBalance } from "../utils/paper-trading";
+import { getMintInfo } from "../utils/token-balance";
+import { randomUUID } from "../utils/uuid";
+
+// Base network fee of a single-signature transaction, in lamports
+const NETWORK_FEE = 5000;
+// Default slippage against the quote assumed for every simulated fill
+const DEFAULT_PAPER_SLIPPAGE_BPS = 50;
+// Default priority fee of a medium urgency swap, in lamports
+const DEFAULT_PAPER_PRIORITY_FEE = 100_000;
+// Priority fee multiplier per urgency, as for live swaps
+const URGENCY_MULTIPLIERS: Record<SwapUrgency, number> = {
+  low: 0.5,
+  medium: 1,
+  high: 2,
+};
+
+/**
+ * Swap venue for paper trading
+ *
+ * Quotes come from the live venue, so paper fills follow the real market.
+ * Swaps are never sent: each fill is the quoted output less a modeled
+ * slippage (PAPER_SLIPPAGE_BPS) and a network plus priority fee
+ * (PAPER_PRIORITY_FEE_LAMPORTS, scaled by urgency), settled against the
+ * virtual SOL balance in the settings table.
+ */
+export class PaperSwapVenue implements SwapVenue {
+  readonly name = "paper";
+
+  private readonly WRAPPED_SOL = "So11111111111111111111111111111111111111112";
+
+  constructor(
+    private db: Database.Database,
+    private liveVenue: SwapVenue,
+    private jupiterService: JupiterService
+  ) {}
+
+  async getQuote(params: QuoteParams): Promise<any> {
+    return this.liveVenue.getQuote(params);
+  }
+
+  async executeSwap(
+    quote: any,
+    walletClient: SolanaWalletClient,
+    urgency: SwapUrgency = "medium"
+  ): Promise<SwapResponse | null> {
+    const isBuy = quote.inputMint === this.WRAPPED_SOL;
+    const inputAmount = Number(quote.inAmount);
+
+    const slippageBps =
+      Number(process.env.PAPER_SLIPPAGE_BPS) || DEFAULT_PAPER_SLIPPAGE_BPS;
+    const outputAmount = Math.floor(
+      Number(quote.outAmount) * (1 - slippageBps / 10000)
+    );
+    const priorityFee = Math.floor(
+      (Number(process.env.PAPER_PRIORITY_FEE_LAMPORTS) ||
+        DEFAULT_PAPER_PRIORITY_FEE) * URGENCY_MULTIPLIERS[urgency]
+    );
+    const fee = NETWORK_FEE + priorityFee;
+    const txid = `paper-${randomUUID()}`;
+
+    // Buys can't spend more virtual SOL than there is
+    const balance = getPaperBalance(this.db);
+    if (isBuy && inputAmount + fee > balance) {
+      return {
+        txid,
+        inputAmount: 0,
+        outputAmount: 0,
+        fee: 0,
+        priorityFee: 0,
+        effectivePrice: null,
+        status: "REJECTED",
+        error: `Insufficient paper balance: ${balance} lamports, need ${
+          inputAmount + fee
+        }`,
+      };
+    }
+
+    const solDelta = isBuy ? -(inputAmount + fee) : outputAmount - fee;
+    const newBalance = adjustPaperBalance(this.db, solDelta);
+
+    const result: SwapResponse = {
+      txid,
+      inputAmount,
+      outputAmount,
+      fee,
+      priorityFee,
+      effectivePrice: await this.getEffectivePrice(
+        isBuy ? quote.outputMint : quote.inputMint,
+        isBuy ? inputAmount : outputAmount,
+        isBuy ? outputAmount : inputAmount
+      ),
+      status: "CONFIRMED",
+    };
+
+    console.log(
+      `📝 Paper swap ${txid} (${urgency}): ${isBuy ? "spent" : "received"} ${
+        isBuy ? inputAmount : outputAmount
+      } lamports, ${isBuy ? "received" : "sold"} ${
+        isBuy ? outputAmount : inputAmount
+      } tokens, fee ${fee}. Paper balance ${(newBalance / 1e9).toFixed(4)} SOL`
+    );
+    return result;
+  }
+
+  // Simulation needs the real transaction, so it goes to the live venue
+  async simulateSwap(
+    quote: any,
+    walletClient: SolanaWalletClient
+  ): Promise<SwapSimulation> {
+    if (!this.liveVenue.simulateSwap) return { success: true };
+    return this.liveVenue.simulateSwap(quote, walletClient);
+  }
+
+  // Filled price in USD per token, from the SOL spent or received
+  private async getEffectivePrice(
+    tokenAddress: string,
+    lamports: number,
+    tokenAmount: number
+  ): Promise<number | null> {
+    if (tokenAmount <= 0) return null;
+
+    // An offline venue's tokens have no mint, it fills at its own price
+    if (this.liveVenue.getPrice) return this.liveVenue.getPrice(tokenAddress);
+
+    const [solPrice, mintInfo] = await Promise.all([
+      this.jupiterService.getCurrentPrice(this.WRAPPED_SOL),
+      getMintInfo(tokenAddress),
+    ]);
+    if (!solPrice || !mintInfo) return null;
+
+    return (
+      ((lamports / 1e9) * solPrice) / (tokenAmount / 10 ** mintInfo.decimals)
+    );
+  }
+}
+
+export const createPaperSwapVenue = (
+  db: Database.Database,
+  liveVenue: SwapVenue,
+  jupiterService: JupiterService
+) => {
+  return new PaperSwapVenue(db, liveVenue, jupiterService);
+};
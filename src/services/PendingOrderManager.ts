@@ -0,0 +1,539 @@
+// src/services/PendingOrderManager.ts
+import Database from "better-sqlite3";
+import {
+  isSwapFailed,
+  isSwapUnconfirmed,
+  JupiterService,
+} from "./JupiterService";
+import { PositionManager } from "./PositionManager";
+import { createRiskEngine, RiskEngine } from "./RiskEngine";
+import { createPaperSwapVenue } from "./PaperSwapVenue";
+import {
+  createTokenSafetyService,
+  TokenSafetyService,
+} from "./TokenSafetyService";
+import { SolanaWalletClient, SwapVenue } from "../types/trade";
+import { randomUUID } from "../utils/uuid";
+import { getPaperBalance } from "../utils/paper-trading";
+import { getSolBalance, getTokenPrice } from "../utils/market-data";
+import { getStrategyConfig, getSwapSettings } from "../utils/strategy";
+import { canOpenPositions, getTradingMode } from "../utils/trading-mode";
+
+export type PendingOrderStatus = "PENDING" | "FILLED" | "CANCELLED" | "EXPIRED";
+
+// Conditional buy order that fills once price retraces to the trigger price
+export interface PendingOrder {
+  id: string;
+  tokenAddress: string;
+  signalId: string | null;
+  signalPrice: number | null;
+  triggerPrice: number;
+  // Order size in lamports
+  size: number;
+  status: PendingOrderStatus;
+  createdAt: number;
+  expiresAt: number;
+  filledAt: number | null;
+  filledPrice: number | null;
+  txId: string | null;
+  positionId: string | null;
+  // Sizing strategy that chose the order size and its inputs (JSON)
+  sizingStrategy: string | null;
+  sizingInputs: string | null;
+  // 1 when placed in paper-trading mode, the fill is simulated
+  paper: number;
+}
+
+// Columns selected for every pending order query
+const ORDER_COLUMNS = `
+  id,
+  token_address as tokenAddress,
+  signal_id as signalId,
+  signal_price as signalPrice,
+  trigger_price as triggerPrice,
+  size,
+  status,
+  created_at as createdAt,
+  expires_at as expiresAt,
+  filled_at as filledAt,
+  filled_price as filledPrice,
+  tx_id as txId,
+  position_id as positionId,
+  sizing_strategy as sizingStrategy,
+  sizing_inputs as sizingInputs,
+  COALESCE(paper, 0) as paper
+`;
+
+export class PendingOrderManager {
+  private readonly WRAPPED_SOL = "So11111111111111111111111111111111111111112";
+
+  private swapVenue: SwapVenue;
+  private paperVenue: SwapVenue;
+  private tokenSafety: TokenSafetyService;
+  private riskEngine: RiskEngine;
+
+  constructor(
+    private db: Database.Database,
+    private jupiterService: JupiterService,
+    private walletClient: SolanaWalletClient,
+    private positionManager: PositionManager,
+    swapVenue?: SwapVenue
+  ) {
+    // Quotes and swaps go through this venue (e.g. a SwapRouter), Jupiter by default
+    this.swapVenue = swapVenue || jupiterService;
+    this.paperVenue = createPaperSwapVenue(db, this.swapVenue, jupiterService);
+    this.tokenSafety = createTokenSafetyService(
+      db,
+      this.swapVenue,
+      walletClient
+    );
+    this.riskEngine = createRiskEngine(db);
+  }
+
+  /**
+   * Create a conditional buy order for a token
+   *
+   * @param params - Token, trigger price, size in lamports and expiry
+   * @returns The created order, or null if the token already has a pending order
+   */
+  createOrder(params: {
+    tokenAddress: string;
+    triggerPrice: number;
+    size: number;
+    expiresAt: number;
+    signalId?: string;
+    signalPrice?: number;
+    sizingStrategy?: string;
+    sizingInputs?: Record<string, unknown>;
+    paper?: boolean;
+  }): PendingOrder | null {
+    const existing = this.getPendingOrderByToken(params.tokenAddress);
+    if (existing) {
+      console.log(
+        `Pending order ${existing.id} already exists for ${params.tokenAddress}`
+      );
+      return null;
+    }
+
+    const order: PendingOrder = {
+      id: randomUUID(),
+      tokenAddress: params.tokenAddress,
+      signalId: params.signalId || null,
+      signalPrice: params.signalPrice ?? null,
+      triggerPrice: params.triggerPrice,
+      size: params.size,
+      status: "PENDING",
+      createdAt: Date.now(),
+      expiresAt: params.expiresAt,
+      filledAt: null,
+      filledPrice: null,
+      txId: null,
+      positionId: null,
+      sizingStrategy: params.sizingStrategy || null,
+      sizingInputs: params.sizingInputs
+        ? JSON.stringify(params.sizingInputs)
+        : null,
+      paper: params.paper ? 1 : 0,
+    };
+
+    this.db
+      .prepare(
+        `
+      INSERT INTO pending_orders (
+        id,
+        token_address,
+        signal_id,
+        signal_price,
+        trigger_price,
+        size,
+        status,
+        created_at,
+        expires_at,
+        sizing_strategy,
+        sizing_inputs,
+        paper
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `
+      )
+      .run(
+        order.id,
+        order.tokenAddress,
+        order.signalId,
+        order.signalPrice,
+        order.triggerPrice,
+        order.size,
+        order.status,
+        order.createdAt,
+        order.expiresAt,
+        order.sizingStrategy,
+        order.sizingInputs,
+        order.paper
+      );
+
+    console.log(
+      `📝 ${order.paper ? "Paper limit" : "Limit"} entry placed for ${
+        order.tokenAddress
+      } at ${order.triggerPrice} (${order.size} lamports)`
+    );
+    return order;
+  }
+
+  getPendingOrders(): PendingOrder[] {
+    return this.db
+      .prepare(
+        `SELECT ${ORDER_COLUMNS} FROM pending_orders WHERE status = 'PENDING' ORDER BY created_at DESC`
+      )
+      .all() as PendingOrder[];
+  }
+
+  getPendingOrderByToken(tokenAddress: string): PendingOrder | null {
+    const order = this.db
+      .prepare(
+        `SELECT ${ORDER_COLUMNS} FROM pending_orders WHERE token_address = ? AND status = 'PENDING'`
+      )
+      .get(tokenAddress) as PendingOrder | undefined;
+    return order || null;
+  }
+
+  /**
+   * Cancel a pending order
+   *
+   * @param id - The order to cancel
+   * @returns True if a pending order was cancelled
+   */
+  cancelOrder(id: string): boolean {
+    return this.setStatus(id, "CANCELLED");
+  }
+
+  /**
+   * Cancel every pending order
+   *
+   * @returns The number of orders cancelled
+   */
+  cancelAllOrders(): number {
+    const result = this.db
+      .prepare(
+        `UPDATE pending_orders SET status = 'CANCELLED' WHERE status = 'PENDING'`
+      )
+      .run();
+    return result.changes;
+  }
+
+  /**
+   * Expire stale orders, then fill any order whose token has retraced to its trigger price
+   */
+  async checkPendingOrders(): Promise<void> {
+    const now = Date.now();
+    const orders = this.getPendingOrders();
+
+    // Fetch all prices in one batch so the per-order lookups hit the cache
+    if (!this.swapVenue.getPrice) {
+      await this.jupiterService.getPrices(
+        orders.map((order) => order.tokenAddress)
+      );
+    }
+
+    for (const order of orders) {
+      try {
+        if (now >= order.expiresAt) {
+          this.setStatus(order.id, "EXPIRED");
+          console.log(
+            `⌛ Limit entry for ${order.tokenAddress} expired unfilled`
+          );
+          continue;
+        }
+
+        const currentPrice = await getTokenPrice(
+          this.swapVenue,
+          this.jupiterService,
+          order.tokenAddress
+        );
+        if (!currentPrice || currentPrice > order.triggerPrice) continue;
+
+        console.log(
+          `🎯 ${order.tokenAddress} retraced to ${currentPrice} (trigger ${order.triggerPrice}), filling limit entry`
+        );
+        await this.fillOrder(order, currentPrice);
+      } catch (error) {
+        console.error(`Error checking pending order ${order.id}:`, error);
+      }
+    }
+  }
+
+  private async fillOrder(
+    order: PendingOrder,
+    currentPrice: number
+  ): Promise<boolean> {
+    // Orders stay pending while new positions are paused
+    const tradingMode = getTradingMode(this.db);
+    if (!canOpenPositions(tradingMode)) {
+      console.log(
+        `🚦 Not filling limit entry ${order.id}, trading mode is ${tradingMode}`
+      );
+      return false;
+    }
+
+    try {
+      // Start a database transaction
+      this.db.exec("BEGIN TRANSACTION");
+
+      try {
+        // A position opened some other way since the order was placed
+        const existingPosition = await this.positionManager.getPositionByToken(
+          order.tokenAddress
+        );
+        if (existingPosition) {
+          this.db.exec("ROLLBACK");
+          this.setStatus(order.id, "CANCELLED");
+          console.log(
+            `Already have position in ${order.tokenAddress}, cancelled limit entry`
+          );
+          return false;
+        }
+
+        // Wait until an earlier swap of the token is known to have landed or not
+        if (this.positionManager.hasUnconfirmedSwap(order.tokenAddress)) {
+          this.db.exec("ROLLBACK");
+          return false;
+        }
+
+        // Paper orders fill against the virtual balance, whatever the
+        // current mode
+        const paper = order.paper === 1;
+        const venue = paper ? this.paperVenue : this.swapVenue;
+
+        // Keep at least 0.01 SOL in the wallet for fees
+        const balance = paper
+          ? getPaperBalance(this.db)
+          : await getSolBalance(this.swapVenue, this.walletClient);
+        const minSolReserve = 10_000_000;
+        let size = Math.min(order.size, balance - minSolReserve);
+
+        if (size <= 0) {
+          console.log(`Not enough SOL to fill limit entry ${order.id}`);
+          this.db.exec("ROLLBACK");
+          return false;
+        }
+
+        // The order stays pending while portfolio limits block buying
+        // The order's own reservation is what is being spent now
+        const risk = await this.riskEngine.checkBuy(
+          order.tokenAddress,
+          size,
+          paper,
+          order.id
+        );
+        if (!risk.allowed) {
+          console.log(`🧯 Not filling limit entry ${order.id}: ${risk.reason}`);
+          this.db.exec("ROLLBACK");
+          return false;
+        }
+        size = risk.lamports;
+
+        // Slippage scaled to the token's current liquidity. An offline
+        // venue's tokens are listed nowhere
+        const tokenInfo = this.swapVenue.offline
+          ? null
+          : await this.jupiterService.getTokenInfo(order.tokenAddress);
+        const swapSettings = getSwapSettings(
+          getStrategyConfig(),
+          tokenInfo?.liquidity
+        );
+        const quote = await venue.getQuote({
+          inputMint: this.WRAPPED_SOL,
+          outputMint: order.tokenAddress,
+          amount: size,
+          ...swapSettings,
+        });
+
+        if (!quote) {
+          console.error(`Failed to get quote for ${order.tokenAddress}`);
+          this.db.exec("ROLLBACK");
+          return false;
+        }
+
+        // The token may have changed since the order was placed
+        const safety = await this.tokenSafety.checkToken(
+          order.tokenAddress,
+          quote
+        );
+        if (!safety.safe) {
+          this.db.exec("ROLLBACK");
+          this.setStatus(order.id, "CANCELLED");
+          console.warn(
+            `🚫 Cancelled limit entry ${order.id} for ${order.tokenAddress}: ${safety.reason}`
+          );
+          this.tokenSafety.recordRejection(order.signalId, safety.reason!);
+          return false;
+        }
+
+        // Seed the position's stop and target from the stored signal, if any
+        const signalLevels = order.signalId
+          ? (this.db
+              .prepare(
+                `SELECT stop_loss, take_profit FROM signals WHERE id = ?`
+              )
+              .get(order.signalId) as
+              | { stop_loss: number | null; take_profit: number | null }
+              | undefined)
+          : undefined;
+
+        // Keep the sizing decision made when the order was placed
+        const sizingInputs = order.sizingInputs
+          ? JSON.stringify({
+              ...JSON.parse(order.sizingInputs),
+              fillLamports: size,
+            })
+          : null;
+
+        const result = await venue.executeSwap(
+          quote,
+          this.walletClient,
+          "medium"
+        );
+        if (!result) {
+          console.error(`Failed to execute swap for ${order.tokenAddress}`);
+          this.db.exec("ROLLBACK");
+          return false;
+        }
+        if (isSwapFailed(result)) {
+          this.db.exec("ROLLBACK");
+          this.positionManager.recordFailedSwap(
+            order.tokenAddress,
+            result,
+            order.signalId || undefined,
+            paper
+          );
+          return false;
+        }
+        // The order stays pending and is marked filled if the swap landed
+        if (isSwapUnconfirmed(result)) {
+          this.db.exec("ROLLBACK");
+          this.positionManager.recordUnconfirmedSwap("BUY", quote, result, {
+            signalId: order.signalId,
+            details: {
+              price: currentPrice,
+              plannedSize: order.size,
+              stopLossPrice: signalLevels?.stop_loss,
+              takeProfitPrice: signalLevels?.take_profit,
+              sizingStrategy: order.sizingStrategy,
+              sizingInputs,
+              sizingLamports: size,
+              paper,
+              orderId: order.id,
+            },
+          });
+          return false;
+        }
+
+        // Use the actual fill rather than the quote
+        const fillPrice = result.effectivePrice ?? currentPrice;
+
+        this.db
+          .prepare(
+            `
+            INSERT INTO trades (
+              id,
+              token_address,
+              position_size,
+              entry_price,
+              entry_time,
+              status,
+              signal_id,
+              tx_id,
+              token_amount,
+              sol_amount,
+              fee,
+              priority_fee,
+              effective_price,
+              sizing_strategy,
+              sizing_inputs,
+              sizing_lamports,
+              paper
+            ) VALUES (?, ?, ?, ?, unixepoch(), ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `
+          )
+          .run(
+            randomUUID(),
+            order.tokenAddress,
+            result.inputAmount,
+            fillPrice,
+            "EXECUTED",
+            order.signalId,
+            result.txid,
+            result.outputAmount,
+            result.inputAmount,
+            result.fee,
+            result.priorityFee ?? null,
+            result.effectivePrice,
+            order.sizingStrategy,
+            sizingInputs,
+            size,
+            order.paper
+          );
+
+        const position = await this.positionManager.createPosition({
+          tokenAddress: order.tokenAddress,
+          amount: result.outputAmount,
+          entryPrice: fillPrice,
+          stopLossPrice: signalLevels?.stop_loss ?? undefined,
+          takeProfitPrice: signalLevels?.take_profit ?? undefined,
+          plannedSize: order.size,
+          deployedSize: result.inputAmount,
+          feesPaid: result.fee,
+          signalId: order.signalId ?? undefined,
+          paper,
+        });
+
+        this.db
+          .prepare(
+            `
+            UPDATE pending_orders
+            SET status = 'FILLED', filled_at = ?, filled_price = ?, tx_id = ?, position_id = ?
+            WHERE id = ?
+          `
+          )
+          .run(Date.now(), fillPrice, result.txid, position.id, order.id);
+
+        // Commit the transaction
+        this.db.exec("COMMIT");
+        console.log(
+          `✅ Limit entry filled for ${order.tokenAddress} at ${fillPrice}`
+        );
+        return true;
+      } catch (error) {
+        // Rollback on error
+        this.db.exec("ROLLBACK");
+        throw error;
+      }
+    } catch (error) {
+      console.error(`Error filling pending order ${order.id}:`, error);
+      return false;
+    }
+  }
+
+  private setStatus(id: string, status: PendingOrderStatus): boolean {
+    const result = this.db
+      .prepare(
+        `UPDATE pending_orders SET status = ? WHERE id = ? AND status = 'PENDING'`
+      )
+      .run(status, id);
+    return result.changes > 0;
+  }
+}
+
+export const createPendingOrderManager = (
+  db: Database.Database,
+  jupiterService: JupiterService,
+  walletClient: SolanaWalletClient,
+  positionManager: PositionManager,
+  swapVenue?: SwapVenue
+) => {
+  return new PendingOrderManager(
+    db,
+    jupiterService,
+    walletClient,
+    positionManager,
+    swapVenue
+  );
+};
@@ -1,10 +1,43 @@
 // src/services/position-manager.ts
 import Database from "better-sqlite3";
-import { JupiterService } from "./JupiterService";
-import { SolanaWalletClient } from "../types/trade";
+import {
+  getPriceImpactPercentage,
+  isSwapFailed,
+  isSwapUnconfirmed,
+  JupiterService,
+} from "./JupiterService";
+import { createPriceOracle, PriceProvider, PriceQuote } from "./PriceProvider";
+import { createRiskEngine, RiskEngine } from "./RiskEngine";
+import {
+  createTokenSafetyService,
+  TokenSafetyService,
+} from "./TokenSafetyService";
+import {
+  QuoteResponse,
+  SolanaWalletClient,
+  SwapResponse,
+  SwapUrgency,
+  SwapVenue,
+  TokenInfo,
+} from "../types/trade";
 import { randomUUID } from "../utils/uuid";
+import { getPaperBalance } from "../utils/paper-trading";
+import { getSolBalance } from "../utils/market-data";
+import { createPaperSwapVenue } from "./PaperSwapVenue";
 import { tradingSchema } from "../utils/db-schema";
 import { runMigrations } from "../utils/migrations";
+import {
+  getStrategyConfig,
+  getSwapSettings,
+  SwapSettings,
+  TakeProfitStep,
+} from "../utils/strategy";
+import { calculateAdaptiveTrailingStop } from "../utils/volatility";
+import {
+  canAddToPositions,
+  canExitAutomatically,
+  getTradingMode,
+} from "../utils/trading-mode";
 
 // Interface for balance history records
 export interface BalanceHistoryRecord {
@@ -27,6 +60,137 @@ export interface Position {
   profitLoss: number | null;
   status: "ACTIVE" | "CLOSED" | "LIQUIDATED";
   trailingStopPercentage: number;
+  initialAmount: number;
+  takeProfitLadder: TakeProfitStep[];
+  stopLossPrice: number | null;
+  takeProfitPrice: number | null;
+  breakevenTriggerPercentage: number | null;
+  entryTime: number;
+  highestPriceAt: number | null;
+  maxHoldingMinutes: number | null;
+  staleAfterMinutes: number | null;
+  strategy: string;
+  plannedSize: number | null;
+  deployedSize: number | null;
+  tranchesPlanned: number;
+  tranchesFilled: number;
+  lastEntryPrice: number;
+  lastEntryTime: number;
+  // Network fees paid on the position's swaps, in lamports
+  feesPaid: number;
+  // Opened in paper-trading mode, its swaps are simulated
+  paper: boolean;
+}
+
+// Why a position (or part of it) was sold, stored on the trades row
+export type ExitReason =
+  | "STOP_LOSS"
+  | "TRAILING_STOP"
+  | "TAKE_PROFIT"
+  | "TAKE_PROFIT_LADDER"
+  | "TIME_OUT"
+  | "STALE"
+  | "SELL_SIGNAL"
+  | "MANUAL"
+  | "MANUAL_DELETE"
+  | "PANIC_SELL";
+
+// Outcome of the panic sell for one position
+export interface PanicSellResult {
+  positionId: string;
+  tokenAddress: string;
+  success: boolean;
+  error: string | null;
+}
+
+// Audit record of what triggered an exit, stored in trade_exits alongside the trade
+export interface ExitRecord {
+  id: string;
+  tradeId: string;
+  positionId: string | null;
+  triggerType: ExitReason;
+  triggerPrice: number | null;
+  entryPrice: number;
+  highestPrice: number | null;
+  stopLossPrice: number | null;
+  takeProfitPrice: number | null;
+  drawdownPercentage: number | null;
+  profitLossPercentage: number | null;
+  reasoning: string | null;
+}
+
+// Exit that sells a position in chunks spaced over time, stored in twap_exits
+export interface TwapExit {
+  id: string;
+  positionId: string;
+  tokenAddress: string;
+  exitReason: ExitReason;
+  reasoning: string | null;
+  totalAmount: number;
+  remainingAmount: number;
+  chunksTotal: number;
+  chunksDone: number;
+  intervalSeconds: number;
+  nextChunkAt: number;
+  status: "ACTIVE" | "COMPLETED" | "CANCELLED";
+}
+
+// What to record once an unconfirmed swap turns out to have landed
+export interface UnconfirmedSwapDetails {
+  // Market price when the swap was sent, used if the fill can't be priced
+  price?: number | null;
+  // BUY: the position to open and the sizing decision behind it
+  plannedSize?: number;
+  tranchesPlanned?: number;
+  stopLossPrice?: number | null;
+  takeProfitPrice?: number | null;
+  sizingStrategy?: string | null;
+  sizingInputs?: string | null;
+  sizingLamports?: number;
+  paper?: boolean;
+  // Limit entry the buy filled
+  orderId?: string;
+  // SELL: why it was sold and which exit sent it
+  exitReason?: ExitReason;
+  reasoning?: string;
+  closesPosition?: boolean;
+  takeProfitMultiple?: number;
+  twapExitId?: string;
+}
+
+// Swap that was sent but whose outcome was unknown, stored in unconfirmed_swaps
+// until reconcileUnconfirmedSwaps finds out whether it landed
+export interface UnconfirmedSwap {
+  id: string;
+  txId: string;
+  kind: "BUY" | "SCALE_IN" | "SELL";
+  tokenAddress: string;
+  positionId: string | null;
+  signalId: string | null;
+  inputMint: string;
+  outputMint: string;
+  inAmount: number;
+  outAmount: number;
+  priorityFee: number | null;
+  details: string | null;
+  status: "PENDING" | "CONFIRMED" | "FAILED" | "DROPPED";
+  createdAt: number;
+}
+
+// Results of the live or the paper book, shown side by side on the dashboard
+export interface TradingBookSummary {
+  paper: boolean;
+  openPositions: number;
+  deployedSol: number;
+  // Exits recorded in trades, partial exits included
+  closedTrades: number;
+  winningTrades: number;
+  // Percentage of exits at a profit, null before the first exit
+  winRate: number | null;
+  // Realized P&L of the exits, in USD
+  realizedPnl: number;
+  // Network and priority fees of all swaps, in SOL
+  feesSol: number;
 }
 
 export interface PositionMetrics {
@@ -41,14 +205,132 @@ export interface ProfitLossData {
   totalPnL: number;
 }
 
+// Columns selected for every position query
+const POSITION_COLUMNS = `
+  id,
+  token_address as tokenAddress,
+  amount,
+  entry_price as entryPrice,
+  current_price as currentPrice,
+  COALESCE(highest_price, current_price, entry_price) as highestPrice,
+  last_updated as lastUpdated,
+  profit_loss as profitLoss,
+  status,
+  COALESCE(trailing_stop_percentage, 20) as trailingStopPercentage,
+  COALESCE(initial_amount, amount) as initialAmount,
+  take_profit_ladder as takeProfitLadder,
+  stop_loss_price as stopLossPrice,
+  take_profit_price as takeProfitPrice,
+  breakeven_trigger_percentage as breakevenTriggerPercentage,
+  COALESCE(entry_time, last_updated) as entryTime,
+  highest_price_at as highestPriceAt,
+  max_holding_minutes as maxHoldingMinutes,
+  stale_after_minutes as staleAfterMinutes,
+  COALESCE(strategy, 'default') as strategy,
+  planned_size as plannedSize,
+  deployed_size as deployedSize,
+  COALESCE(tranches_planned, 1) as tranchesPlanned,
+  COALESCE(tranches_filled, 1) as tranchesFilled,
+  COALESCE(last_entry_price, entry_price) as lastEntryPrice,
+  COALESCE(last_entry_time, entry_time, last_updated) as lastEntryTime,
+  COALESCE(fees_paid, 0) as feesPaid,
+  COALESCE(paper, 0) as paper
+`;
+
+// Columns selected for every TWAP exit query
+const TWAP_EXIT_COLUMNS = `
+  id,
+  position_id as positionId,
+  token_address as tokenAddress,
+  exit_reason as exitReason,
+  reasoning,
+  total_amount as totalAmount,
+  remaining_amount as remainingAmount,
+  chunks_total as chunksTotal,
+  chunks_done as chunksDone,
+  interval_seconds as intervalSeconds,
+  next_chunk_at as nextChunkAt,
+  status
+`;
+
+// Columns selected for every unconfirmed swap query
+const UNCONFIRMED_SWAP_COLUMNS = `
+  id,
+  tx_id as txId,
+  kind,
+  token_address as tokenAddress,
+  position_id as positionId,
+  signal_id as signalId,
+  input_mint as inputMint,
+  output_mint as outputMint,
+  in_amount as inAmount,
+  out_amount as outAmount,
+  priority_fee as priorityFee,
+  details,
+  status,
+  created_at as createdAt
+`;
+
+// A swap whose signature is still unknown this long after sending has
+// expired with its blockhash and never landed
+const UNCONFIRMED_SWAP_DROP_MS = 10 * 60 * 1000;
+
+// Smallest TWAP chunk, as a share of the planned chunk, when shrinking for price impact
+const MIN_TWAP_CHUNK_RATIO = 0.25;
+
+// Minimum number of stored prices before volatility is used for the trailing stop
+const MIN_VOLATILITY_SAMPLES = 5;
+
+/**
+ * Check whether a position's price is within 10% of its stop-loss or take-profit price
+ *
+ * @param position - The position to check (uses its last known price)
+ * @returns Which exit the position is approaching, or null
+ */
+export function getApproachingExit(
+  position: Position
+): "stop-loss" | "take-profit" | null {
+  const price = position.currentPrice;
+  if (!price) return null;
+
+  if (position.stopLossPrice && price <= position.stopLossPrice * 1.1) {
+    return "stop-loss";
+  }
+  if (position.takeProfitPrice && price >= position.takeProfitPrice * 0.9) {
+    return "take-profit";
+  }
+  return null;
+}
+
 export class PositionManager {
   private balanceHistoryIntervalId: NodeJS.Timeout | null = null;
 
+  private swapVenue: SwapVenue;
+  private paperVenue: SwapVenue;
+  private priceProvider: PriceProvider;
+  private riskEngine: RiskEngine;
+  private tokenSafety: TokenSafetyService;
+
   constructor(
     private db: Database.Database,
     private jupiterService: JupiterService,
-    private walletClient: SolanaWalletClient
+    private walletClient: SolanaWalletClient,
+    swapVenue?: SwapVenue,
+    priceProvider?: PriceProvider
   ) {
+    // Quotes and swaps go through this venue (e.g. a SwapRouter), Jupiter by default
+    this.swapVenue = swapVenue || jupiterService;
+    // Paper positions fill at the live venue's quotes without sending swaps
+    this.paperVenue = createPaperSwapVenue(db, this.swapVenue, jupiterService);
+    // Position prices fall back through several sources, see PriceOracle
+    this.priceProvider =
+      priceProvider || createPriceOracle(jupiterService, this.swapVenue);
+    this.riskEngine = createRiskEngine(db);
+    this.tokenSafety = createTokenSafetyService(
+      db,
+      this.swapVenue,
+      walletClient
+    );
     this.initializeDatabase();
     this.startBalanceHistoryRecording();
   }
@@ -71,13 +353,44 @@ export class PositionManager {
     amount: number;
     entryPrice: number;
     trailingStopPercentage?: number;
+    takeProfitLadder?: TakeProfitStep[];
+    stopLossPrice?: number | null;
+    takeProfitPrice?: number | null;
+    breakevenTriggerPercentage?: number;
+    maxHoldingMinutes?: number;
+    staleAfterMinutes?: number;
+    strategy?: string;
+    // Scale-in plan: total lamports planned, lamports spent on the first tranche
+    plannedSize?: number;
+    deployedSize?: number;
+    tranchesPlanned?: number;
+    // Network fee of the entry swap, in lamports
+    feesPaid?: number;
+    // Signal the position was opened from
+    signalId?: string;
+    // Opened with a simulated swap in paper-trading mode
+    paper?: boolean;
   }): Promise<Position> {
     console.log(
       `Creating position for ${params.tokenAddress} with amount ${params.amount} and entry price ${params.entryPrice}`
     );
 
+    const strategy = getStrategyConfig(params.strategy);
+
+    // Use the signal's stop and target when they make sense for this entry,
+    // otherwise fall back to the strategy defaults
+    const stopLossPrice =
+      params.stopLossPrice && params.stopLossPrice < params.entryPrice
+        ? params.stopLossPrice
+        : params.entryPrice * (1 - strategy.stopLossPercentage / 100);
+    const takeProfitPrice =
+      params.takeProfitPrice && params.takeProfitPrice > params.entryPrice
+        ? params.takeProfitPrice
+        : params.entryPrice * (1 + strategy.takeProfitPercentage / 100);
+
     // Save the exact amount from the blockchain/Jupiter
     // No need to manipulate it as we'll handle conversion in the UI
+    const now = Date.now();
     const position: Position = {
       id: randomUUID(),
       tokenAddress: params.tokenAddress,
@@ -85,10 +398,31 @@ export class PositionManager {
       entryPrice: params.entryPrice,
       currentPrice: params.entryPrice,
       highestPrice: params.entryPrice,
-      lastUpdated: Date.now(),
+      lastUpdated: now,
       profitLoss: 0,
       status: "ACTIVE",
-      trailingStopPercentage: params.trailingStopPercentage || 20,
+      trailingStopPercentage:
+        params.trailingStopPercentage || strategy.trailingStopPercentage,
+      initialAmount: params.amount,
+      takeProfitLadder: params.takeProfitLadder || strategy.takeProfitLadder,
+      stopLossPrice,
+      takeProfitPrice,
+      breakevenTriggerPercentage:
+        params.breakevenTriggerPercentage ||
+        strategy.breakevenTriggerPercentage,
+      entryTime: now,
+      highestPriceAt: now,
+      maxHoldingMinutes: params.maxHoldingMinutes ?? strategy.maxHoldingMinutes,
+      staleAfterMinutes: params.staleAfterMinutes ?? strategy.staleAfterMinutes,
+      strategy: strategy.name,
+      plannedSize: params.plannedSize ?? null,
+      deployedSize: params.deployedSize ?? null,
+      tranchesPlanned: params.tranchesPlanned || 1,
+      tranchesFilled: 1,
+      lastEntryPrice: params.entryPrice,
+      lastEntryTime: now,
+      feesPaid: params.feesPaid || 0,
+      paper: !!params.paper,
     };
 
     this.db
@@ -104,8 +438,27 @@ export class PositionManager {
         last_updated,
         profit_loss,
         status,
-        trailing_stop_percentage
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        trailing_stop_percentage,
+        initial_amount,
+        take_profit_ladder,
+        stop_loss_price,
+        take_profit_price,
+        breakeven_trigger_percentage,
+        entry_time,
+        highest_price_at,
+        max_holding_minutes,
+        stale_after_minutes,
+        strategy,
+        planned_size,
+        deployed_size,
+        tranches_planned,
+        tranches_filled,
+        last_entry_price,
+        last_entry_time,
+        fees_paid,
+        signal_id,
+        paper
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `
       )
       .run(
@@ -118,7 +471,26 @@ export class PositionManager {
         position.lastUpdated,
         position.profitLoss,
         position.status,
-        position.trailingStopPercentage
+        position.trailingStopPercentage,
+        position.initialAmount,
+        JSON.stringify(position.takeProfitLadder),
+        position.stopLossPrice,
+        position.takeProfitPrice,
+        position.breakevenTriggerPercentage,
+        position.entryTime,
+        position.highestPriceAt,
+        position.maxHoldingMinutes,
+        position.staleAfterMinutes,
+        position.strategy,
+        position.plannedSize,
+        position.deployedSize,
+        position.tranchesPlanned,
+        position.tranchesFilled,
+        position.lastEntryPrice,
+        position.lastEntryTime,
+        position.feesPaid,
+        params.signalId || null,
+        position.paper ? 1 : 0
       );
 
     return position;
@@ -128,42 +500,36 @@ export class PositionManager {
   // Use lazy initialization for prepared statements to ensure migrations run first
   private get getPositionStmt() {
     return this.db.prepare(`
-      SELECT 
-        id,
-        token_address as tokenAddress,
-        amount,
-        entry_price as entryPrice,
-        current_price as currentPrice,
-        COALESCE(highest_price, current_price, entry_price) as highestPrice,
-        last_updated as lastUpdated,
-        profit_loss as profitLoss,
-        status,
-        COALESCE(trailing_stop_percentage, 20) as trailingStopPercentage
-      FROM positions 
+      SELECT ${POSITION_COLUMNS}
+      FROM positions
       WHERE id = ?
     `);
   }
 
+  // Convert a raw position row into a Position (parses JSON columns)
+  private toPosition(row: any): Position {
+    let takeProfitLadder: TakeProfitStep[] = [];
+    if (typeof row.takeProfitLadder === "string") {
+      try {
+        takeProfitLadder = JSON.parse(row.takeProfitLadder);
+      } catch (error) {
+        console.warn(`Invalid take-profit ladder on position ${row.id}`);
+      }
+    }
+
+    return { ...row, takeProfitLadder, paper: !!row.paper };
+  }
+
   async getPosition(id: string): Promise<Position | null> {
     const position = this.getPositionStmt.get(id);
-    return (position as Position) || null;
+    return position ? this.toPosition(position) : null;
   }
 
   // Prepared statement for getting a position by token address
   private get getPositionByTokenStmt() {
     return this.db.prepare(`
-      SELECT 
-        id,
-        token_address as tokenAddress,
-        amount,
-        entry_price as entryPrice,
-        current_price as currentPrice,
-        COALESCE(highest_price, current_price, entry_price) as highestPrice,
-        last_updated as lastUpdated,
-        profit_loss as profitLoss,
-        status,
-        COALESCE(trailing_stop_percentage, 20) as trailingStopPercentage
-      FROM positions 
+      SELECT ${POSITION_COLUMNS}
+      FROM positions
       WHERE token_address = ? 
       AND status = 'ACTIVE'
     `);
@@ -171,24 +537,14 @@ export class PositionManager {
 
   async getPositionByToken(tokenAddress: string): Promise<Position | null> {
     const position = this.getPositionByTokenStmt.get(tokenAddress);
-    return (position as Position) || null;
+    return position ? this.toPosition(position) : null;
   }
 
   // Prepared statement for getting all active positions
   private get getAllActivePositionsStmt() {
     return this.db.prepare(`
-      SELECT 
-        id,
-        token_address as tokenAddress,
-        amount,
-        entry_price as entryPrice,
-        current_price as currentPrice,
-        COALESCE(highest_price, current_price, entry_price) as highestPrice,
-        last_updated as lastUpdated,
-        profit_loss as profitLoss,
-        status,
-        COALESCE(trailing_stop_percentage, 20) as trailingStopPercentage
-      FROM positions 
+      SELECT ${POSITION_COLUMNS}
+      FROM positions
       WHERE status = 'ACTIVE'
     `);
   }
@@ -197,7 +553,7 @@ export class PositionManager {
     // Execute the prepared statement
     const positions = this.getAllActivePositionsStmt.all();
 
-    return positions as Position[];
+    return positions.map((row) => this.toPosition(row));
   }
 
   // Prepare statements once during initialization for better performance
@@ -206,12 +562,24 @@ export class PositionManager {
       UPDATE positions 
       SET 
         amount = ?,
+        entry_price = ?,
+        initial_amount = ?,
         current_price = ?,
         highest_price = ?,
         last_updated = ?,
         profit_loss = ?,
         status = ?,
-        trailing_stop_percentage = ?
+        trailing_stop_percentage = ?,
+        take_profit_ladder = ?,
+        stop_loss_price = ?,
+        take_profit_price = ?,
+        breakeven_trigger_percentage = ?,
+        highest_price_at = ?,
+        deployed_size = ?,
+        tranches_filled = ?,
+        last_entry_price = ?,
+        last_entry_time = ?,
+        fees_paid = ?
       WHERE id = ?
     `);
   }
@@ -227,19 +595,37 @@ export class PositionManager {
 
     this.updatePositionStmt.run(
       updatedPosition.amount,
+      updatedPosition.entryPrice,
+      updatedPosition.initialAmount,
       updatedPosition.currentPrice,
       updatedPosition.highestPrice,
       Date.now(),
       updatedPosition.profitLoss,
       updatedPosition.status,
       updatedPosition.trailingStopPercentage,
+      JSON.stringify(updatedPosition.takeProfitLadder),
+      updatedPosition.stopLossPrice,
+      updatedPosition.takeProfitPrice,
+      updatedPosition.breakevenTriggerPercentage,
+      updatedPosition.highestPriceAt,
+      updatedPosition.deployedSize,
+      updatedPosition.tranchesFilled,
+      updatedPosition.lastEntryPrice,
+      updatedPosition.lastEntryTime,
+      updatedPosition.feesPaid,
       id
     );
 
     return updatedPosition;
   }
 
-  async closePosition(id: string): Promise<boolean> {
+  async closePosition(
+    id: string,
+    exitReason: ExitReason = "MANUAL",
+    reasoning?: string,
+    swapSettings?: SwapSettings,
+    priceQuote?: PriceQuote | null
+  ): Promise<boolean> {
     try {
       // Start a database transaction
       this.db.exec("BEGIN TRANSACTION");
@@ -252,26 +638,51 @@ export class PositionManager {
           return false;
         }
 
-        // Get current token info
-        const tokenInfo = await this.jupiterService.getTokenInfo(
-          position.tokenAddress
-        );
-        if (!tokenInfo?.isValid || tokenInfo.price === null) {
-          console.error(
-            `Failed to get valid token info for ${position.tokenAddress}`
-          );
+        // The position is already being sold in chunks. A panic sell cancels
+        // the remaining chunks and sells the rest at once
+        const activeTwapExit = this.getActiveTwapExit(id);
+        if (activeTwapExit && exitReason !== "PANIC_SELL") {
+          this.db.exec("ROLLBACK");
+          console.log(`⏳ Position ${id} is already exiting via TWAP`);
+          return true;
+        }
+        if (activeTwapExit) {
+          this.finishTwapExit(activeTwapExit.id, "CANCELLED");
+        }
+
+        // A sell may already be on its way. Manual and panic sells go ahead
+        // and sell whatever the wallet holds
+        if (
+          this.hasUnconfirmedSwap(position.tokenAddress) &&
+          exitReason !== "MANUAL" &&
+          exitReason !== "PANIC_SELL"
+        ) {
           this.db.exec("ROLLBACK");
+          console.log(
+            `⏳ Waiting for an unconfirmed swap of ${position.tokenAddress} before closing ${id}`
+          );
           return false;
         }
 
-        // Get the actual token balance from the blockchain
-        const { getTokenBalance } = await import("../utils/token-balance");
-        const walletAddress = this.walletClient.getAddress();
+        // A price is only needed for the P&L, never to sell. Tokens nobody
+        // can price are often the ones rugging and must still be sold
+        const markPrice =
+          (
+            priceQuote ??
+            (await this.priceProvider.getPrice(position.tokenAddress))
+          )?.price ?? null;
+        if (markPrice === null) {
+          console.warn(
+            `⚠️ No price for ${position.tokenAddress}, selling without one`
+          );
+        }
 
-        const actualTokenBalance = await getTokenBalance(
-          position.tokenAddress,
-          walletAddress
+        // Get the actual token balance from the blockchain, summed over all
+        // of the wallet's accounts for the mint
+        const { calculateTransferFee, getMintInfo } = await import(
+          "../utils/token-balance"
         );
+        const actualTokenBalance = await this.getHeldTokenBalance(position);
 
         if (actualTokenBalance === null) {
           console.error(
@@ -290,12 +701,42 @@ export class PositionManager {
         // Update position amount to match actual balance (prevents "insufficient funds" errors)
         position.amount = Number(actualTokenBalance);
 
+        // Token-2022 transfer fees are withheld from the amount reaching the pool
+        const mintInfo = this.swapVenue.offline
+          ? null
+          : await getMintInfo(position.tokenAddress);
+        if (mintInfo?.transferFeeBasisPoints) {
+          console.log(
+            `Token-2022 transfer fee of ${
+              mintInfo.transferFeeBasisPoints
+            } bps applies to ${position.tokenAddress}: ${calculateTransferFee(
+              actualTokenBalance,
+              mintInfo
+            )} tokens withheld on the sale`
+          );
+        }
+
+        // Slippage follows the token's liquidity unless the caller passed settings.
+        // With TWAP exits enabled, high price impact switches to chunked selling
+        // below instead of refusing the quote
+        // A panic sell takes any price and never waits for TWAP chunks
+        const strategy = getStrategyConfig(position.strategy);
+        const settings =
+          swapSettings ?? (await this.getPositionSwapSettings(position));
+        const isPanicSell = exitReason === "PANIC_SELL";
+
         // Get quote for selling tokens back to SOL using the corrected amount
         const WRAPPED_SOL = "So11111111111111111111111111111111111111112";
-        const quote = await this.jupiterService.getQuote({
+        const quote = await this.swapVenue.getQuote({
           inputMint: position.tokenAddress,
           outputMint: WRAPPED_SOL,
           amount: position.amount,
+          slippageBps: settings.slippageBps,
+          onlyDirectRoutes: settings.onlyDirectRoutes,
+          maxPriceImpactPct:
+            strategy.twapExitChunks > 1 || isPanicSell
+              ? undefined
+              : settings.maxPriceImpactPct,
         });
 
         if (!quote) {
@@ -306,49 +747,71 @@ export class PositionManager {
           return false;
         }
 
+        // Thin pools: sell in chunks over time instead of one large swap
+        const priceImpact = getPriceImpactPercentage(quote);
+        if (
+          !isPanicSell &&
+          strategy.twapExitChunks > 1 &&
+          priceImpact > strategy.twapMaxPriceImpactPercentage
+        ) {
+          this.db.exec("ROLLBACK");
+          console.log(
+            `🐢 Price impact ${priceImpact.toFixed(2)}% for ${
+              position.tokenAddress
+            } exceeds ${
+              strategy.twapMaxPriceImpactPercentage
+            }%, switching to TWAP exit`
+          );
+          // Track the on-chain balance so the chunks add up to what we hold
+          await this.updatePosition(id, { amount: position.amount });
+          return this.startTwapExit(id, exitReason, reasoning);
+        }
+
         // Execute swap (sell tokens back to SOL)
-        const result = await this.jupiterService.executeSwap(
+        const result = await this.getSwapVenue(position).executeSwap(
           quote,
-          this.walletClient
+          this.walletClient,
+          this.getExitUrgency(exitReason)
         );
         if (!result) {
           console.error(`Failed to execute swap for ${position.tokenAddress}`);
           this.db.exec("ROLLBACK");
           return false;
         }
-
-        // Calculate final profit/loss
-        const finalValue = Number(result.outputAmount);
-        const entryValue = position.amount * position.entryPrice;
-        const profitLoss = finalValue - entryValue;
-
-        // Record the transaction in the trades table
-        this.db
-          .prepare(
-            `
-            INSERT INTO trades (
-              id,
-              token_address,
-              position_size,
-              entry_price,
-              exit_price,
-              exit_time,
-              status,
-              profit_loss,
-              tx_id
-            ) VALUES (?, ?, ?, ?, ?, unixepoch(), ?, ?, ?)
-          `
-          )
-          .run(
-            randomUUID(),
+        if (isSwapFailed(result)) {
+          this.db.exec("ROLLBACK");
+          this.recordFailedSwap(
             position.tokenAddress,
-            position.amount,
-            position.entryPrice,
-            tokenInfo.price,
-            "CLOSED",
-            profitLoss,
-            result.txid
+            result,
+            undefined,
+            position.paper
           );
+          return false;
+        }
+        if (isSwapUnconfirmed(result)) {
+          this.db.exec("ROLLBACK");
+          this.recordUnconfirmedSwap("SELL", quote, result, {
+            positionId: id,
+            details: {
+              price: markPrice,
+              exitReason,
+              reasoning,
+              closesPosition: true,
+            },
+          });
+          return false;
+        }
+
+        // Calculate final profit/loss from the actual fill, unknown when
+        // neither the fill nor the market could be priced
+        const exitPrice = result.effectivePrice ?? markPrice;
+        const { profitLoss } = await this.recordSellTrade(
+          position,
+          result,
+          exitPrice,
+          exitReason,
+          reasoning
+        );
 
         const currentTime = Date.now();
         // Update position status
@@ -356,7 +819,8 @@ export class PositionManager {
           status: "CLOSED",
           lastUpdated: currentTime,
           profitLoss: profitLoss,
-          currentPrice: tokenInfo.price,
+          currentPrice: exitPrice ?? position.currentPrice,
+          feesPaid: position.feesPaid + result.fee,
         });
 
         // Set exit_time directly in positions table
@@ -373,7 +837,7 @@ export class PositionManager {
         // Commit the transaction
         this.db.exec("COMMIT");
         console.log(
-          `✅ Position ${id} closed successfully. Final P&L: ${profitLoss}`
+          `✅ Position ${id} closed successfully (${exitReason}). Final P&L: ${profitLoss}`
         );
         return true;
       } catch (error) {
@@ -389,6 +853,9 @@ export class PositionManager {
   }
 
   async updatePricesAndProfitLoss(): Promise<void> {
+    // Settle swaps sent earlier before acting on the positions they change
+    await this.reconcileUnconfirmedSwaps();
+
     const activePositions = await this.getAllActivePositions();
 
     // Categorize positions into high-priority and regular updates
@@ -400,17 +867,8 @@ export class PositionManager {
       try {
         // Check if position needs urgent attention based on last known values
         if (position.currentPrice && position.entryPrice) {
-          const lastKnownProfitLoss = position.profitLoss || 0;
-          const entryValue = position.amount * position.entryPrice;
-          const profitLossPercentage =
-            entryValue > 0 ? (lastKnownProfitLoss / entryValue) * 100 : 0;
-
-          // Positions approaching stop-loss or take-profit thresholds get priority
-          const approachingThreshold =
-            (profitLossPercentage < -10 && profitLossPercentage > -20) || // Approaching stop-loss
-            (profitLossPercentage > 25 && profitLossPercentage < 30); // Approaching take-profit
-
-          if (approachingThreshold) {
+          // Positions approaching their stop-loss or take-profit prices get priority
+          if (getApproachingExit(position)) {
             highPriorityPositions.push(position);
           } else {
             regularPositions.push(position);
@@ -428,6 +886,13 @@ export class PositionManager {
 
     // No need to log position counts
 
+    // Fetch all prices in one batch so the per-position lookups hit the cache
+    if (!this.swapVenue.getPrice) {
+      await this.jupiterService.getPrices(
+        activePositions.map((position) => position.tokenAddress)
+      );
+    }
+
     // Process high-priority positions first
     for (const position of highPriorityPositions) {
       await this.updatePositionPrice(position);
@@ -442,24 +907,23 @@ export class PositionManager {
   // Helper method to update a single position
   private async updatePositionPrice(position: Position): Promise<void> {
     try {
-      // Get the latest price directly from the price API
-      const currentPrice = await this.jupiterService.getCurrentPrice(
+      // Get the latest price, falling back through the price sources
+      const priceQuote = await this.priceProvider.getPrice(
         position.tokenAddress
       );
 
-      if (currentPrice === null) {
+      if (priceQuote === null) {
         console.warn(
-          `⚠️ Could not get current price for ${position.tokenAddress}, skipping update`
+          `⚠️ Could not get current price for ${position.tokenAddress} from any source, skipping update`
         );
         return;
       }
+      const currentPrice = priceQuote.price;
 
       // Try to get the full token info for additional data
       let tokenInfo = null;
       try {
-        tokenInfo = await this.jupiterService.getTokenInfo(
-          position.tokenAddress
-        );
+        tokenInfo = await this.getTokenInfo(position.tokenAddress);
       } catch (error) {
         console.warn(
           `Error getting token info for ${position.tokenAddress}, using defaults`
@@ -477,31 +941,92 @@ export class PositionManager {
 
       // Determine if this is a new highest price
       let highestPrice = position.highestPrice || position.entryPrice;
+      let highestPriceAt = position.highestPriceAt;
       if (currentPrice > highestPrice) {
         highestPrice = currentPrice;
+        highestPriceAt = Date.now();
         console.log(
           `📈 New highest price for ${position.tokenAddress}: ${currentPrice}`
         );
       }
 
+      const strategy = getStrategyConfig(position.strategy);
+
+      // Fall back to the strategy default for positions without a stored stop
+      let stopLossPrice =
+        position.stopLossPrice ??
+        position.entryPrice * (1 - strategy.stopLossPercentage / 100);
+
+      // Store the price and adapt the trailing stop to recent volatility
+      this.recordPrice(position.tokenAddress, currentPrice, priceQuote.source);
+      let trailingStopPercentage = position.trailingStopPercentage || 20;
+      if (strategy.adaptiveTrailingStop) {
+        trailingStopPercentage = calculateAdaptiveTrailingStop(
+          this.getRecentPrices(
+            position.tokenAddress,
+            strategy.volatilityLookback
+          ),
+          {
+            volatilityMultiplier: strategy.volatilityMultiplier,
+            floorPercentage: strategy.trailingStopFloorPercentage,
+            ceilingPercentage: strategy.trailingStopCeilingPercentage,
+            minSamples: MIN_VOLATILITY_SAMPLES,
+          }
+        );
+      }
+
+      // Move the stop to breakeven once the position has gained enough
+      if (
+        position.breakevenTriggerPercentage &&
+        profitLossPercentage >= position.breakevenTriggerPercentage &&
+        stopLossPrice < position.entryPrice
+      ) {
+        stopLossPrice = position.entryPrice;
+        console.log(
+          `🛡️ Position ${position.id} up ${profitLossPercentage.toFixed(
+            2
+          )}%, moving SL to breakeven (${stopLossPrice})`
+        );
+      }
+
       // Update position with new price info
       await this.updatePosition(position.id, {
         currentPrice: currentPrice,
         highestPrice: highestPrice,
+        highestPriceAt,
         profitLoss,
+        stopLossPrice,
+        trailingStopPercentage,
         lastUpdated: Date.now(),
       });
 
-      // Check for stop loss (fixed at -20%)
-      if (profitLossPercentage < -20) {
+      // Exit triggers don't apply while the position is being sold in chunks
+      if (this.getActiveTwapExit(position.id)) return;
+
+      // Nothing else is bought or sold until a sent swap's outcome is known
+      if (this.hasUnconfirmedSwap(position.tokenAddress)) return;
+
+      // Prices keep updating while halted, but nothing is bought or sold
+      if (!canExitAutomatically(getTradingMode(this.db))) return;
+
+      // Check for stop loss at the position's stop price
+      if (currentPrice <= stopLossPrice) {
         console.log(
           `⚠️ Stop loss triggered for position ${
             position.id
-          } (${profitLossPercentage.toFixed(2)}%)`
+          } at ${currentPrice} (stop ${stopLossPrice}, ${profitLossPercentage.toFixed(
+            2
+          )}%)`
         );
 
         // Execute stop loss by closing the position
-        const success = await this.closePosition(position.id);
+        const success = await this.closePosition(
+          position.id,
+          "STOP_LOSS",
+          undefined,
+          undefined,
+          priceQuote
+        );
         if (success) {
           console.log(
             `✅ Stop loss executed for position ${
@@ -516,25 +1041,109 @@ export class PositionManager {
         return; // Exit early after closing the position
       }
 
+      // Check for the full take-profit target
+      if (
+        position.takeProfitPrice &&
+        currentPrice >= position.takeProfitPrice
+      ) {
+        console.log(
+          `🎯 Take profit triggered for position ${
+            position.id
+          } at ${currentPrice} (target ${
+            position.takeProfitPrice
+          }, ${profitLossPercentage.toFixed(2)}%)`
+        );
+
+        const success = await this.closePosition(
+          position.id,
+          "TAKE_PROFIT",
+          undefined,
+          undefined,
+          priceQuote
+        );
+        if (success) {
+          console.log(
+            `✅ Take profit executed for position ${
+              position.id
+            } at ${profitLossPercentage.toFixed(2)}%`
+          );
+        } else {
+          console.error(
+            `❌ Failed to execute take profit for position ${position.id}`
+          );
+        }
+        return;
+      }
+
+      // Add a scale-in tranche when price pulls back below the last entry
+      if (
+        this.canScaleIn(position) &&
+        currentPrice <=
+          position.lastEntryPrice *
+            (1 - strategy.scaleInPullbackPercentage / 100)
+      ) {
+        console.log(
+          `📉 Pullback to ${currentPrice} on position ${position.id}, adding scale-in tranche`
+        );
+        await this.executeScaleInTranche(position.id, currentPrice);
+      }
+
+      // Check take-profit ladder steps (partial exits)
+      for (const step of position.takeProfitLadder) {
+        if (step.executed) continue;
+        if (currentPrice < position.entryPrice * step.multiple) continue;
+
+        console.log(
+          `🎯 Take-profit step ${step.multiple}x hit for position ${
+            position.id
+          } (${profitLossPercentage.toFixed(2)}%), selling ${
+            step.sellPercentage
+          }%`
+        );
+
+        const updated = await this.executeTakeProfitStep(
+          position.id,
+          step,
+          currentPrice
+        );
+        if (!updated) {
+          console.error(
+            `❌ Failed to execute take-profit step ${step.multiple}x for position ${position.id}`
+          );
+          break; // Retry on the next check
+        }
+
+        if (updated.status !== "ACTIVE") {
+          return; // The ladder sold the whole position
+        }
+      }
+
       // Check for trailing stop
       if (highestPrice > 0 && currentPrice > 0) {
         // Calculate percentage drop from highest price
         const dropPercentage =
           ((highestPrice - currentPrice) / highestPrice) * 100;
 
-        // Get trailing stop percentage (default to 20% if not set)
-        const trailingStopPercentage = position.trailingStopPercentage || 20;
-
         // If price has dropped below trailing stop threshold
         if (dropPercentage >= trailingStopPercentage) {
           console.log(
             `🔻 Trailing stop triggered for position ${
               position.id
-            } (${dropPercentage.toFixed(2)}% drop from highest price)`
+            } (${dropPercentage.toFixed(
+              2
+            )}% drop from highest price, trailing stop ${trailingStopPercentage.toFixed(
+              2
+            )}%)`
           );
 
           // Execute trailing stop by closing the position
-          const success = await this.closePosition(position.id);
+          const success = await this.closePosition(
+            position.id,
+            "TRAILING_STOP",
+            undefined,
+            undefined,
+            priceQuote
+          );
           if (success) {
             console.log(
               `✅ Trailing stop executed for position ${
@@ -555,98 +1164,1636 @@ export class PositionManager {
     }
   }
 
-  async closePositionByToken(tokenAddress: string): Promise<boolean> {
-    try {
-      const position = await this.getPositionByToken(tokenAddress);
-      if (!position) {
-        return false;
-      }
+  /**
+   * Check whether a position still has scale-in tranches to buy within its window
+   */
+  canScaleIn(position: Position): boolean {
+    if (position.status !== "ACTIVE") return false;
+    if (position.tranchesFilled >= position.tranchesPlanned) return false;
+    if (!position.plannedSize) return false;
+    if (this.getActiveTwapExit(position.id)) return false;
+
+    const { scaleInWindowMinutes } = getStrategyConfig(position.strategy);
+    return (
+      Date.now() - position.lastEntryTime <= scaleInWindowMinutes * 60 * 1000
+    );
+  }
 
-      return await this.closePosition(position.id);
-    } catch (error) {
-      return false;
-    }
+  /**
+   * Drop the unfilled scale-in tranches of every active position
+   *
+   * @returns The number of positions that had tranches left to buy
+   */
+  cancelScaleInTranches(): number {
+    const result = this.db
+      .prepare(
+        `UPDATE positions SET tranches_planned = tranches_filled
+         WHERE status = 'ACTIVE' AND tranches_filled < tranches_planned`
+      )
+      .run();
+    return result.changes;
   }
 
-  async getPortfolioMetrics(): Promise<PositionMetrics> {
-    const positions = await this.getAllActivePositions();
-    let totalValue = 0;
-    let totalProfitLoss = 0;
+  /**
+   * Buy the next scale-in tranche of a position
+   *
+   * Spends an even share of the remaining planned size, records the buy in the
+   * trades table and updates the weighted-average entry price and total amount.
+   *
+   * @param id - The position to add to
+   * @param price - The current token price used for the weighted average
+   * @param signalId - The signal that triggered the tranche, if any
+   * @returns The updated position, or null if the tranche was not bought
+   */
+  async executeScaleInTranche(
+    id: string,
+    price: number,
+    signalId?: string
+  ): Promise<Position | null> {
+    try {
+      // Start a database transaction
+      this.db.exec("BEGIN TRANSACTION");
 
-    for (const position of positions) {
-      if (position.currentPrice !== null) {
-        try {
-          // Get token decimals from the database
-          const tokenRecord = this.db
-            .prepare(
-              `
-            SELECT decimals FROM tokens WHERE address = ?
-          `
-            )
-            .get(position.tokenAddress) as { decimals?: number } | undefined;
+      try {
+        const position = await this.getPosition(id);
+        if (!position || !this.canScaleIn(position)) {
+          this.db.exec("ROLLBACK");
+          return null;
+        }
 
-          // Use default of 9 decimals if not found
-          const tokenDecimals = tokenRecord?.decimals || 9;
+        // The previous tranche's outcome is not known yet
+        if (this.hasUnconfirmedSwap(position.tokenAddress)) {
+          this.db.exec("ROLLBACK");
+          return null;
+        }
 
-          // Normalize amount using token-specific decimals (same as in dashboard)
-          const { normalizeTokenAmount } = await import("../utils/token");
-          const normalizedAmount = normalizeTokenAmount(
-            position.amount,
-            tokenDecimals
+        const tradingMode = getTradingMode(this.db);
+        if (!canAddToPositions(tradingMode)) {
+          console.log(
+            `🚦 Skipping scale-in tranche on ${id}, trading mode is ${tradingMode}`
           );
+          this.db.exec("ROLLBACK");
+          return null;
+        }
 
-          // Calculate value using normalized amount
-          const currentValue = normalizedAmount * position.currentPrice;
-          const entryValue = normalizedAmount * position.entryPrice;
-          const positionProfitLoss = currentValue - entryValue;
+        // Spread what is left of the planned size over the remaining tranches
+        const deployedSize = position.deployedSize || 0;
+        const remainingTranches =
+          position.tranchesPlanned - position.tranchesFilled;
+        let trancheSize = Math.floor(
+          ((position.plannedSize || 0) - deployedSize) / remainingTranches
+        );
 
-          // Add to totals
-          totalValue += currentValue;
-          totalProfitLoss += positionProfitLoss;
-        } catch (error) {
-          console.error(
-            `Error calculating position metrics for ${position.tokenAddress}:`,
-            error
-          );
+        // Keep at least 0.01 SOL in the wallet for fees
+        const balance = position.paper
+          ? getPaperBalance(this.db)
+          : await getSolBalance(this.swapVenue, this.walletClient);
+        const minSolReserve = 10_000_000;
+        trancheSize = Math.min(trancheSize, balance - minSolReserve);
+
+        if (trancheSize <= 0) {
+          console.log(`Not enough SOL for scale-in tranche on position ${id}`);
+          this.db.exec("ROLLBACK");
+          return null;
         }
-      }
-    }
 
-    // Calculate total entry value for percentage calculation (matching dashboard.ejs)
-    let totalEntryValue = 0;
-    for (const position of positions) {
-      try {
-        const tokenRecord = this.db
-          .prepare(
-            `
-          SELECT decimals FROM tokens WHERE address = ?
-        `
-          )
-          .get(position.tokenAddress) as { decimals?: number } | undefined;
-        const tokenDecimals = tokenRecord?.decimals || 9;
-        const { normalizeTokenAmount } = await import("../utils/token");
-        const normalizedAmount = normalizeTokenAmount(
-          position.amount,
-          tokenDecimals
+        // Tranches count against the portfolio and per-token limits too
+        const risk = await this.riskEngine.checkBuy(
+          position.tokenAddress,
+          trancheSize,
+          position.paper
         );
-        totalEntryValue += normalizedAmount * position.entryPrice;
-      } catch (error) {
-        // Ignore errors for percentage calculation
-      }
-    }
-
-    // Calculate percentage based on total entry value (matching dashboard.ejs)
-    const profitLossPercentage =
-      totalEntryValue > 0 ? (totalProfitLoss / totalEntryValue) * 100 : 0;
+        if (!risk.allowed) {
+          console.log(`🧯 Skipping scale-in tranche on ${id}: ${risk.reason}`);
+          this.db.exec("ROLLBACK");
+          return null;
+        }
+        trancheSize = risk.lamports;
 
-    return {
-      totalValue,
-      profitLoss: totalProfitLoss,
-      profitLossPercentage,
-    };
-  }
+        const WRAPPED_SOL = "So11111111111111111111111111111111111111112";
+        const quote = await this.swapVenue.getQuote({
+          inputMint: WRAPPED_SOL,
+          outputMint: position.tokenAddress,
+          amount: trancheSize,
+          ...(await this.getPositionSwapSettings(position)),
+        });
 
-  /**
+        if (!quote) {
+          console.error(
+            `Failed to get quote for scale-in on ${position.tokenAddress}`
+          );
+          this.db.exec("ROLLBACK");
+          return null;
+        }
+
+        // The token may have turned since the first tranche. The wallet
+        // holds live positions' tokens, so their sell is really simulated
+        const heldAmount = position.paper
+          ? undefined
+          : Number((await this.getHeldTokenBalance(position)) ?? 0);
+        const safety = await this.tokenSafety.checkToken(
+          position.tokenAddress,
+          quote,
+          heldAmount || undefined
+        );
+        if (!safety.safe) {
+          this.db.exec("ROLLBACK");
+          console.warn(
+            `🚫 Stopped scaling into ${position.tokenAddress}: ${safety.reason}`
+          );
+          this.tokenSafety.recordRejection(signalId, safety.reason!);
+          // No further tranches for a token that failed the check
+          this.db
+            .prepare(
+              `UPDATE positions SET tranches_planned = tranches_filled WHERE id = ?`
+            )
+            .run(id);
+          return null;
+        }
+
+        const result = await this.getSwapVenue(position).executeSwap(
+          quote,
+          this.walletClient,
+          "low"
+        );
+        if (!result) {
+          console.error(
+            `Failed to execute scale-in swap for ${position.tokenAddress}`
+          );
+          this.db.exec("ROLLBACK");
+          return null;
+        }
+        if (isSwapFailed(result)) {
+          this.db.exec("ROLLBACK");
+          this.recordFailedSwap(
+            position.tokenAddress,
+            result,
+            signalId,
+            position.paper
+          );
+          return null;
+        }
+        if (isSwapUnconfirmed(result)) {
+          this.db.exec("ROLLBACK");
+          this.recordUnconfirmedSwap("SCALE_IN", quote, result, {
+            positionId: id,
+            signalId,
+            details: { price },
+          });
+          return null;
+        }
+
+        // Use the actual fill rather than the quote
+        const updated = await this.addTrancheFill(
+          position,
+          result,
+          result.effectivePrice ?? price,
+          signalId
+        );
+
+        // Commit the transaction
+        this.db.exec("COMMIT");
+        console.log(
+          `➕ Scale-in tranche ${updated?.tranchesFilled}/${position.tranchesPlanned} bought for position ${id}. New entry price: ${updated?.entryPrice}`
+        );
+        return updated;
+      } catch (error) {
+        // Rollback on error
+        this.db.exec("ROLLBACK");
+        console.error(`Error executing scale-in tranche for ${id}:`, error);
+        return null;
+      }
+    } catch (error) {
+      console.error(`Error in executeScaleInTranche for ${id}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Add a bought tranche to a position at the weighted-average entry price
+   *
+   * Records the tranche as its own buy in the trades table.
+   */
+  private async addTrancheFill(
+    position: Position,
+    result: SwapResponse,
+    fillPrice: number,
+    signalId?: string
+  ): Promise<Position | null> {
+    // Record the tranche as its own buy in the trades table
+    this.db
+      .prepare(
+        `
+        INSERT INTO trades (
+          id,
+          token_address,
+          position_size,
+          entry_price,
+          entry_time,
+          status,
+          signal_id,
+          tx_id,
+          token_amount,
+          sol_amount,
+          fee,
+          priority_fee,
+          effective_price,
+          paper
+        ) VALUES (?, ?, ?, ?, unixepoch(), ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `
+      )
+      .run(
+        randomUUID(),
+        position.tokenAddress,
+        result.inputAmount,
+        fillPrice,
+        "EXECUTED",
+        signalId || null,
+        result.txid,
+        result.outputAmount,
+        result.inputAmount,
+        result.fee,
+        result.priorityFee ?? null,
+        result.effectivePrice,
+        position.paper ? 1 : 0
+      );
+
+    // Weighted-average entry price over the combined token amount
+    const addedAmount = result.outputAmount;
+    const totalAmount = position.amount + addedAmount;
+    const entryPrice =
+      (position.amount * position.entryPrice + addedAmount * fillPrice) /
+      totalAmount;
+
+    // Stop and target derived from the old entry by the strategy move
+    // with the average. Levels from the signal or breakeven stay put
+    const strategy = getStrategyConfig(position.strategy);
+    const stopLossPrice = this.isStrategyLevel(
+      position.stopLossPrice,
+      position.entryPrice * (1 - strategy.stopLossPercentage / 100)
+    )
+      ? entryPrice * (1 - strategy.stopLossPercentage / 100)
+      : position.stopLossPrice;
+    const takeProfitPrice = this.isStrategyLevel(
+      position.takeProfitPrice,
+      position.entryPrice * (1 + strategy.takeProfitPercentage / 100)
+    )
+      ? entryPrice * (1 + strategy.takeProfitPercentage / 100)
+      : position.takeProfitPrice;
+
+    return this.updatePosition(position.id, {
+      amount: totalAmount,
+      initialAmount: position.initialAmount + addedAmount,
+      entryPrice,
+      stopLossPrice,
+      takeProfitPrice,
+      deployedSize: (position.deployedSize || 0) + result.inputAmount,
+      tranchesFilled: position.tranchesFilled + 1,
+      lastEntryPrice: fillPrice,
+      lastEntryTime: Date.now(),
+      feesPaid: position.feesPaid + result.fee,
+    });
+  }
+
+  // Whether a stored stop or target is the one the strategy derived
+  private isStrategyLevel(level: number | null, derived: number): boolean {
+    return level !== null && Math.abs(level - derived) <= derived * 1e-9;
+  }
+
+  /**
+   * Execute a single take-profit ladder step by selling part of a position
+   *
+   * Sells the step's percentage of the initial position amount, records the
+   * partial exit with its realized P&L in the trades table and reduces the
+   * position amount. The position is closed if nothing is left.
+   *
+   * @returns The updated position, or null if the partial exit failed
+   */
+  private async executeTakeProfitStep(
+    id: string,
+    step: TakeProfitStep,
+    currentPrice: number
+  ): Promise<Position | null> {
+    try {
+      // Start a database transaction
+      this.db.exec("BEGIN TRANSACTION");
+
+      try {
+        const position = await this.getPosition(id);
+        if (!position || position.status !== "ACTIVE") {
+          this.db.exec("ROLLBACK");
+          return null;
+        }
+
+        // Never sell more than what the wallet actually holds
+        const actualTokenBalance = await this.getHeldTokenBalance(position);
+        if (actualTokenBalance === null || actualTokenBalance <= 0) {
+          console.error(
+            `Failed to get actual token balance for ${position.tokenAddress}`
+          );
+          this.db.exec("ROLLBACK");
+          return null;
+        }
+
+        const availableAmount = Math.min(
+          position.amount,
+          Number(actualTokenBalance)
+        );
+        const sellAmount = Math.min(
+          Math.floor((position.initialAmount * step.sellPercentage) / 100),
+          availableAmount
+        );
+        if (sellAmount <= 0) {
+          this.db.exec("ROLLBACK");
+          return null;
+        }
+
+        // Get quote for selling part of the tokens back to SOL
+        const WRAPPED_SOL = "So11111111111111111111111111111111111111112";
+        const quote = await this.swapVenue.getQuote({
+          inputMint: position.tokenAddress,
+          outputMint: WRAPPED_SOL,
+          amount: sellAmount,
+          ...(await this.getPositionSwapSettings(position)),
+        });
+
+        if (!quote) {
+          console.error(
+            `Failed to get quote for partial sell of ${position.tokenAddress}`
+          );
+          this.db.exec("ROLLBACK");
+          return null;
+        }
+
+        const result = await this.getSwapVenue(position).executeSwap(
+          quote,
+          this.walletClient,
+          "medium"
+        );
+        if (!result) {
+          console.error(
+            `Failed to execute partial swap for ${position.tokenAddress}`
+          );
+          this.db.exec("ROLLBACK");
+          return null;
+        }
+        const reasoning = `Take-profit step ${step.multiple}x: sold ${step.sellPercentage}% of the initial position`;
+        if (isSwapFailed(result)) {
+          this.db.exec("ROLLBACK");
+          this.recordFailedSwap(
+            position.tokenAddress,
+            result,
+            undefined,
+            position.paper
+          );
+          return null;
+        }
+        if (isSwapUnconfirmed(result)) {
+          this.db.exec("ROLLBACK");
+          this.recordUnconfirmedSwap("SELL", quote, result, {
+            positionId: id,
+            details: {
+              price: currentPrice,
+              exitReason: "TAKE_PROFIT_LADDER",
+              reasoning,
+              takeProfitMultiple: step.multiple,
+            },
+          });
+          return null;
+        }
+
+        // Realized P&L of the sold portion from the actual fill
+        const soldAmount = result.inputAmount;
+        const { profitLoss: realizedProfitLoss } = await this.recordSellTrade(
+          position,
+          result,
+          result.effectivePrice ?? currentPrice,
+          "TAKE_PROFIT_LADDER",
+          reasoning
+        );
+
+        // Mark the step as done and reduce the position amount
+        const remainingAmount = Math.max(0, availableAmount - soldAmount);
+        const takeProfitLadder = position.takeProfitLadder.map((s) =>
+          s.multiple === step.multiple ? { ...s, executed: true } : s
+        );
+        const currentTime = Date.now();
+
+        const updated = await this.updatePosition(id, {
+          amount: remainingAmount,
+          takeProfitLadder,
+          currentPrice,
+          lastUpdated: currentTime,
+          feesPaid: position.feesPaid + result.fee,
+          ...(remainingAmount <= 0 ? { status: "CLOSED" as const } : {}),
+        });
+
+        if (remainingAmount <= 0) {
+          this.db
+            .prepare(`UPDATE positions SET exit_time = ? WHERE id = ?`)
+            .run(currentTime, id);
+        }
+
+        // Commit the transaction
+        this.db.exec("COMMIT");
+        console.log(
+          `💰 Sold ${step.sellPercentage}% of position ${id} at ${step.multiple}x. Realized P&L: ${realizedProfitLoss}`
+        );
+        return updated;
+      } catch (error) {
+        // Rollback on error
+        this.db.exec("ROLLBACK");
+        console.error(`Error executing take-profit step for ${id}:`, error);
+        return null;
+      }
+    } catch (error) {
+      console.error(`Error in executeTakeProfitStep for ${id}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the TWAP exit in progress for a position, if any
+   */
+  getActiveTwapExit(positionId: string): TwapExit | null {
+    const twapExit = this.db
+      .prepare(
+        `SELECT ${TWAP_EXIT_COLUMNS} FROM twap_exits WHERE position_id = ? AND status = 'ACTIVE'`
+      )
+      .get(positionId) as TwapExit | undefined;
+    return twapExit || null;
+  }
+
+  /**
+   * Start selling a position in chunks spaced over time
+   *
+   * Progress is stored in twap_exits, so remaining chunks are resumed by
+   * processTwapExits after a restart of the position monitor.
+   *
+   * @param id - The position to exit
+   * @param exitReason - Why the position is being closed, recorded on every chunk
+   * @param reasoning - Optional free-text explanation for the exit
+   * @param chunks - Number of chunks (default: strategy setting)
+   * @returns True if the TWAP exit was started
+   */
+  async startTwapExit(
+    id: string,
+    exitReason: ExitReason = "MANUAL",
+    reasoning?: string,
+    chunks?: number
+  ): Promise<boolean> {
+    try {
+      const position = await this.getPosition(id);
+      if (!position || position.status !== "ACTIVE") return false;
+
+      if (this.getActiveTwapExit(id)) {
+        console.log(`⏳ Position ${id} is already exiting via TWAP`);
+        return true;
+      }
+
+      const strategy = getStrategyConfig(position.strategy);
+      const chunksTotal = Math.max(
+        1,
+        Math.floor(chunks || strategy.twapExitChunks)
+      );
+      const now = Date.now();
+
+      this.db
+        .prepare(
+          `
+          INSERT INTO twap_exits (
+            id,
+            position_id,
+            token_address,
+            exit_reason,
+            reasoning,
+            total_amount,
+            remaining_amount,
+            chunks_total,
+            chunks_done,
+            interval_seconds,
+            next_chunk_at,
+            status,
+            created_at,
+            updated_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0, ?, ?, 'ACTIVE', ?, ?)
+        `
+        )
+        .run(
+          randomUUID(),
+          id,
+          position.tokenAddress,
+          exitReason,
+          reasoning || null,
+          position.amount,
+          position.amount,
+          chunksTotal,
+          strategy.twapExitIntervalSeconds,
+          now,
+          now,
+          now
+        );
+
+      console.log(
+        `🐢 Started TWAP exit for position ${id}: ${chunksTotal} chunks every ${strategy.twapExitIntervalSeconds}s (${exitReason})`
+      );
+
+      // Sell the first chunk right away
+      const twapExit = this.getActiveTwapExit(id);
+      if (twapExit) {
+        await this.executeTwapChunk(twapExit);
+      }
+      return true;
+    } catch (error) {
+      console.error(`Error starting TWAP exit for ${id}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Sell the next chunk of every TWAP exit that is due
+   */
+  async processTwapExits(): Promise<void> {
+    if (!canExitAutomatically(getTradingMode(this.db))) return;
+
+    const dueExits = this.db
+      .prepare(
+        `SELECT ${TWAP_EXIT_COLUMNS} FROM twap_exits WHERE status = 'ACTIVE' AND next_chunk_at <= ?`
+      )
+      .all(Date.now()) as TwapExit[];
+
+    for (const twapExit of dueExits) {
+      await this.executeTwapChunk(twapExit);
+    }
+  }
+
+  private async executeTwapChunk(twapExit: TwapExit): Promise<boolean> {
+    const id = twapExit.positionId;
+
+    try {
+      // Start a database transaction
+      this.db.exec("BEGIN TRANSACTION");
+
+      try {
+        const position = await this.getPosition(id);
+        if (!position || position.status !== "ACTIVE") {
+          this.finishTwapExit(twapExit.id, "CANCELLED");
+          this.db.exec("COMMIT");
+          return false;
+        }
+
+        // The previous chunk's outcome is not known yet
+        if (this.hasUnconfirmedSwap(position.tokenAddress)) {
+          this.db.exec("ROLLBACK");
+          return false;
+        }
+
+        // Never sell more than what the wallet actually holds
+        const actualTokenBalance = await this.getHeldTokenBalance(position);
+        if (actualTokenBalance === null) {
+          console.error(
+            `Failed to get actual token balance for ${position.tokenAddress}`
+          );
+          this.db.exec("ROLLBACK");
+          return false;
+        }
+
+        const availableAmount = Math.min(
+          twapExit.remainingAmount,
+          Number(actualTokenBalance)
+        );
+        const currentPrice =
+          (await this.priceProvider.getPrice(position.tokenAddress))?.price ??
+          position.currentPrice ??
+          position.entryPrice;
+
+        // Nothing left to sell, the exit is done
+        if (availableAmount <= 0) {
+          await this.completeTwapPosition(position, twapExit, currentPrice);
+          this.db.exec("COMMIT");
+          return true;
+        }
+
+        // Spread what is left over the remaining chunks
+        const chunksLeft = Math.max(
+          1,
+          twapExit.chunksTotal - twapExit.chunksDone
+        );
+        const plannedChunk = Math.ceil(availableAmount / chunksLeft);
+
+        // Chunks manage price impact by shrinking, so no hard cap here
+        const { slippageBps, onlyDirectRoutes } =
+          await this.getPositionSwapSettings(position);
+
+        const WRAPPED_SOL = "So11111111111111111111111111111111111111112";
+        let sellAmount = plannedChunk;
+        let quote = await this.swapVenue.getQuote({
+          inputMint: position.tokenAddress,
+          outputMint: WRAPPED_SOL,
+          amount: sellAmount,
+          slippageBps,
+          onlyDirectRoutes,
+        });
+
+        // Shrink the chunk roughly in proportion to its price impact
+        const { twapMaxPriceImpactPercentage } = getStrategyConfig(
+          position.strategy
+        );
+        const priceImpact = quote ? getPriceImpactPercentage(quote) : 0;
+        if (quote && priceImpact > twapMaxPriceImpactPercentage) {
+          sellAmount = Math.max(
+            Math.floor(
+              (plannedChunk * twapMaxPriceImpactPercentage) / priceImpact
+            ),
+            Math.floor(plannedChunk * MIN_TWAP_CHUNK_RATIO),
+            1
+          );
+          console.log(
+            `📉 TWAP chunk for ${
+              position.tokenAddress
+            } has ${priceImpact.toFixed(
+              2
+            )}% price impact, reducing chunk to ${sellAmount}`
+          );
+          quote = await this.swapVenue.getQuote({
+            inputMint: position.tokenAddress,
+            outputMint: WRAPPED_SOL,
+            amount: sellAmount,
+            slippageBps,
+            onlyDirectRoutes,
+          });
+        }
+
+        if (!quote) {
+          console.error(
+            `Failed to get quote for TWAP chunk of ${position.tokenAddress}`
+          );
+          this.db.exec("ROLLBACK");
+          return false;
+        }
+
+        const result = await this.getSwapVenue(position).executeSwap(
+          quote,
+          this.walletClient,
+          "low"
+        );
+        if (!result) {
+          console.error(
+            `Failed to execute TWAP chunk swap for ${position.tokenAddress}`
+          );
+          this.db.exec("ROLLBACK");
+          return false;
+        }
+        const chunksDone = twapExit.chunksDone + 1;
+        const reasoning = `TWAP chunk ${chunksDone}/${twapExit.chunksTotal}${
+          twapExit.reasoning ? `: ${twapExit.reasoning}` : ""
+        }`;
+        if (isSwapFailed(result)) {
+          this.db.exec("ROLLBACK");
+          this.recordFailedSwap(
+            position.tokenAddress,
+            result,
+            undefined,
+            position.paper
+          );
+          return false;
+        }
+        if (isSwapUnconfirmed(result)) {
+          this.db.exec("ROLLBACK");
+          this.recordUnconfirmedSwap("SELL", quote, result, {
+            positionId: id,
+            details: {
+              price: currentPrice,
+              exitReason: twapExit.exitReason,
+              reasoning,
+              twapExitId: twapExit.id,
+            },
+          });
+          return false;
+        }
+
+        // Realized P&L of the sold chunk from the actual fill, recorded under
+        // the original exit reason
+        const soldAmount = result.inputAmount;
+        await this.recordSellTrade(
+          position,
+          result,
+          result.effectivePrice ?? currentPrice,
+          twapExit.exitReason,
+          reasoning
+        );
+
+        const remainingAmount = Math.max(0, availableAmount - soldAmount);
+        const now = Date.now();
+        this.db
+          .prepare(
+            `
+            UPDATE twap_exits
+            SET remaining_amount = ?, chunks_done = ?, next_chunk_at = ?, updated_at = ?
+            WHERE id = ?
+          `
+          )
+          .run(
+            remainingAmount,
+            chunksDone,
+            now + twapExit.intervalSeconds * 1000,
+            now,
+            twapExit.id
+          );
+
+        await this.updatePosition(id, {
+          amount: remainingAmount,
+          currentPrice,
+          lastUpdated: now,
+          feesPaid: position.feesPaid + result.fee,
+        });
+
+        if (remainingAmount <= 0) {
+          await this.completeTwapPosition(position, twapExit, currentPrice);
+        }
+
+        // Commit the transaction
+        this.db.exec("COMMIT");
+        console.log(
+          `🐢 TWAP chunk ${chunksDone}/${twapExit.chunksTotal} sold for position ${id}. Remaining: ${remainingAmount}`
+        );
+        return true;
+      } catch (error) {
+        // Rollback on error
+        this.db.exec("ROLLBACK");
+        console.error(`Error executing TWAP chunk for ${id}:`, error);
+        return false;
+      }
+    } catch (error) {
+      console.error(`Error in executeTwapChunk for ${id}:`, error);
+      return false;
+    }
+  }
+
+  // Close the position once the last TWAP chunk has been sold
+  private async completeTwapPosition(
+    position: Position,
+    twapExit: TwapExit,
+    currentPrice: number
+  ) {
+    // Realized P&L of the position is the sum of the TWAP exit's chunks
+    const realized = this.db
+      .prepare(
+        `
+        SELECT COALESCE(SUM(trades.profit_loss), 0) as profitLoss
+        FROM trades
+        JOIN trade_exits ON trade_exits.trade_id = trades.id
+        JOIN twap_exits ON twap_exits.id = ?
+        WHERE trade_exits.position_id = ?
+          AND trades.exit_reason = twap_exits.exit_reason
+          AND trades.exit_time >= twap_exits.created_at / 1000
+      `
+      )
+      .get(twapExit.id, position.id) as { profitLoss: number };
+
+    const currentTime = Date.now();
+    await this.updatePosition(position.id, {
+      amount: 0,
+      status: "CLOSED",
+      currentPrice,
+      profitLoss: Number(realized.profitLoss) || 0,
+      lastUpdated: currentTime,
+    });
+    this.db
+      .prepare(`UPDATE positions SET exit_time = ? WHERE id = ?`)
+      .run(currentTime, position.id);
+    this.finishTwapExit(twapExit.id, "COMPLETED");
+    console.log(
+      `✅ Position ${position.id} closed by TWAP exit (${twapExit.exitReason})`
+    );
+  }
+
+  private finishTwapExit(id: string, status: "COMPLETED" | "CANCELLED") {
+    this.db
+      .prepare(`UPDATE twap_exits SET status = ?, updated_at = ? WHERE id = ?`)
+      .run(status, Date.now(), id);
+  }
+
+  // Protective exits need to land quickly, other exits can wait for cheaper blocks
+  private getExitUrgency(exitReason: ExitReason): SwapUrgency {
+    switch (exitReason) {
+      case "STOP_LOSS":
+      case "TRAILING_STOP":
+      case "SELL_SIGNAL":
+      case "PANIC_SELL":
+        return "high";
+      default:
+        return "medium";
+    }
+  }
+
+  /**
+   * Record a swap that failed on-chain or in pre-flight simulation, so its
+   * fee (if any) and failure reason are accounted for
+   *
+   * @param tokenAddress - The token that was being bought or sold
+   * @param result - The failed swap result
+   * @param signalId - The signal that triggered the swap, if any
+   */
+  recordFailedSwap(
+    tokenAddress: string,
+    result: SwapResponse,
+    signalId?: string,
+    paper: boolean = false
+  ) {
+    this.db
+      .prepare(
+        `
+        INSERT INTO trades (
+          id,
+          token_address,
+          signal_id,
+          entry_time,
+          status,
+          tx_id,
+          fee,
+          priority_fee,
+          failure_reason,
+          paper
+        ) VALUES (?, ?, ?, unixepoch(), 'FAILED', ?, ?, ?, ?, ?)
+      `
+      )
+      .run(
+        randomUUID(),
+        tokenAddress,
+        signalId || null,
+        result.txid || null,
+        result.fee,
+        result.priorityFee ?? null,
+        result.error || null,
+        paper ? 1 : 0
+      );
+    console.error(
+      result.status === "REJECTED"
+        ? `❌ Swap for ${tokenAddress} rejected before sending: ${result.error}`
+        : `❌ Swap ${result.txid} for ${tokenAddress} failed on-chain: ${result.error}`
+    );
+  }
+
+  /**
+   * Record a swap that was sent but whose outcome is unknown
+   *
+   * The swap may still land, so it is not treated as a fill or a failure.
+   * reconcileUnconfirmedSwaps re-checks it and records whatever it did.
+   *
+   * @param kind - Whether the swap opened, added to or sold a position
+   * @param quote - The quote the swap was sent with
+   * @param result - The unconfirmed swap result
+   * @param params - Position, signal and what to record once it lands
+   */
+  recordUnconfirmedSwap(
+    kind: UnconfirmedSwap["kind"],
+    quote: QuoteResponse,
+    result: SwapResponse,
+    params: {
+      positionId?: string;
+      signalId?: string | null;
+      details?: UnconfirmedSwapDetails;
+    } = {}
+  ) {
+    const tokenAddress = kind === "SELL" ? quote.inputMint : quote.outputMint;
+    this.db
+      .prepare(
+        `
+        INSERT INTO unconfirmed_swaps (
+          id,
+          tx_id,
+          kind,
+          token_address,
+          position_id,
+          signal_id,
+          input_mint,
+          output_mint,
+          in_amount,
+          out_amount,
+          priority_fee,
+          details,
+          status,
+          created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'PENDING', ?)
+      `
+      )
+      .run(
+        randomUUID(),
+        result.txid,
+        kind,
+        tokenAddress,
+        params.positionId || null,
+        params.signalId || null,
+        quote.inputMint,
+        quote.outputMint,
+        Number(quote.inAmount),
+        Number(quote.outAmount),
+        result.priorityFee ?? null,
+        params.details ? JSON.stringify(params.details) : null,
+        Date.now()
+      );
+    console.warn(
+      `⏳ Swap ${result.txid} for ${tokenAddress} not confirmed, will re-check before trading the token again`
+    );
+  }
+
+  /**
+   * Check whether a token has a sent swap whose outcome is still unknown
+   */
+  hasUnconfirmedSwap(tokenAddress: string): boolean {
+    const row = this.db
+      .prepare(
+        `SELECT 1 FROM unconfirmed_swaps WHERE token_address = ? AND status = 'PENDING' LIMIT 1`
+      )
+      .get(tokenAddress);
+    return !!row;
+  }
+
+  /**
+   * Re-check every unconfirmed swap and record the ones whose outcome is known
+   *
+   * Swaps that landed are recorded as the buy, tranche or sell they were
+   * sent as. Swaps that failed on-chain are recorded like any failed swap.
+   * Swaps whose signature is still unknown after UNCONFIRMED_SWAP_DROP_MS
+   * never landed and are dropped.
+   */
+  async reconcileUnconfirmedSwaps(): Promise<void> {
+    const swaps = this.db
+      .prepare(
+        `SELECT ${UNCONFIRMED_SWAP_COLUMNS} FROM unconfirmed_swaps WHERE status = 'PENDING' ORDER BY created_at`
+      )
+      .all() as UnconfirmedSwap[];
+
+    for (const swap of swaps) {
+      try {
+        const result = await this.jupiterService.confirmSwap(
+          swap.txId,
+          this.walletClient.getAddress(),
+          {
+            inputMint: swap.inputMint,
+            outputMint: swap.outputMint,
+            inAmount: swap.inAmount,
+            outAmount: swap.outAmount,
+          }
+        );
+
+        if (isSwapUnconfirmed(result)) {
+          // A signature that was seen may still finalize, keep waiting on it
+          if (
+            result.error &&
+            Date.now() - swap.createdAt > UNCONFIRMED_SWAP_DROP_MS
+          ) {
+            this.resolveUnconfirmedSwap(swap.id, "DROPPED");
+            console.warn(
+              `🗑️ Swap ${swap.txId} for ${swap.tokenAddress} never landed, dropped`
+            );
+          }
+          continue;
+        }
+
+        const fill = { ...result, priorityFee: swap.priorityFee };
+
+        this.db.exec("BEGIN TRANSACTION");
+        try {
+          // Another process may have settled the swap in the meantime
+          if (
+            !this.resolveUnconfirmedSwap(
+              swap.id,
+              isSwapFailed(fill) ? "FAILED" : "CONFIRMED"
+            )
+          ) {
+            this.db.exec("ROLLBACK");
+            continue;
+          }
+
+          if (isSwapFailed(fill)) {
+            this.recordFailedSwap(
+              swap.tokenAddress,
+              fill,
+              swap.signalId || undefined,
+              await this.isPaperSwap(swap)
+            );
+          } else if (!(await this.applyConfirmedSwap(swap, fill))) {
+            // Retried on the next check when the fill can't be recorded yet
+            this.db.exec("ROLLBACK");
+            continue;
+          }
+          this.db.exec("COMMIT");
+        } catch (error) {
+          this.db.exec("ROLLBACK");
+          throw error;
+        }
+      } catch (error) {
+        console.error(`Error reconciling swap ${swap.txId}:`, error);
+      }
+    }
+  }
+
+  // Record a swap that turned out to have landed as what it was sent for
+  // Whether an unconfirmed swap was made for the paper book. Buys store the
+  // flag, other swaps belong to a position
+  private async isPaperSwap(swap: UnconfirmedSwap): Promise<boolean> {
+    const details: UnconfirmedSwapDetails = swap.details
+      ? JSON.parse(swap.details)
+      : {};
+    if (details.paper !== undefined) return details.paper;
+    const position = swap.positionId
+      ? await this.getPosition(swap.positionId)
+      : null;
+    return position?.paper ?? false;
+  }
+
+  private async applyConfirmedSwap(
+    swap: UnconfirmedSwap,
+    result: SwapResponse
+  ): Promise<boolean> {
+    const details: UnconfirmedSwapDetails = swap.details
+      ? JSON.parse(swap.details)
+      : {};
+    const position = swap.positionId
+      ? await this.getPosition(swap.positionId)
+      : await this.getPositionByToken(swap.tokenAddress);
+
+    if (swap.kind === "SELL") {
+      if (!position) {
+        console.warn(
+          `⚠️ Sell ${swap.txId} landed but position ${swap.positionId} is gone`
+        );
+        return true;
+      }
+
+      const exitPrice = result.effectivePrice ?? details.price ?? null;
+      const { profitLoss } = await this.recordSellTrade(
+        position,
+        result,
+        exitPrice,
+        details.exitReason || "MANUAL",
+        details.reasoning
+      );
+      console.log(
+        `✅ Unconfirmed sell ${swap.txId} of ${swap.tokenAddress} landed late. P&L: ${profitLoss}`
+      );
+
+      // Closed in the meantime, e.g. by a manual sell of what was left
+      if (position.status !== "ACTIVE") return true;
+
+      const soldAmount = result.inputAmount;
+      const remainingAmount = Math.max(0, position.amount - soldAmount);
+      const currentTime = Date.now();
+
+      const twapExit = this.getActiveTwapExit(position.id);
+      if (twapExit && twapExit.id === details.twapExitId) {
+        const twapRemaining = Math.max(
+          0,
+          twapExit.remainingAmount - soldAmount
+        );
+        this.db
+          .prepare(
+            `
+            UPDATE twap_exits
+            SET remaining_amount = ?, chunks_done = ?, next_chunk_at = ?, updated_at = ?
+            WHERE id = ?
+          `
+          )
+          .run(
+            twapRemaining,
+            twapExit.chunksDone + 1,
+            currentTime + twapExit.intervalSeconds * 1000,
+            currentTime,
+            twapExit.id
+          );
+        await this.updatePosition(position.id, {
+          amount: remainingAmount,
+          lastUpdated: currentTime,
+          feesPaid: position.feesPaid + result.fee,
+        });
+        if (twapRemaining <= 0) {
+          await this.completeTwapPosition(
+            position,
+            twapExit,
+            exitPrice ?? position.currentPrice ?? position.entryPrice
+          );
+        }
+        return true;
+      }
+
+      const closed = details.closesPosition || remainingAmount <= 0;
+      await this.updatePosition(position.id, {
+        amount: remainingAmount,
+        takeProfitLadder: position.takeProfitLadder.map((step) =>
+          step.multiple === details.takeProfitMultiple
+            ? { ...step, executed: true }
+            : step
+        ),
+        lastUpdated: currentTime,
+        feesPaid: position.feesPaid + result.fee,
+        ...(closed ? { status: "CLOSED" as const } : {}),
+        ...(details.closesPosition ? { profitLoss } : {}),
+      });
+      if (closed) {
+        this.db
+          .prepare(`UPDATE positions SET exit_time = ? WHERE id = ?`)
+          .run(currentTime, position.id);
+      }
+      return true;
+    }
+
+    // Buys are recorded at the fill price, or the market price when the
+    // fill can't be priced
+    const fillPrice =
+      result.effectivePrice ??
+      (await this.priceProvider.getPrice(swap.tokenAddress))?.price ??
+      details.price ??
+      null;
+    if (fillPrice === null) {
+      console.warn(
+        `⚠️ No price for the late fill of ${swap.txId}, retrying later`
+      );
+      return false;
+    }
+
+    // Tranches, and buys of a token held again since, add to the position
+    if (position) {
+      if (position.status !== "ACTIVE") {
+        console.warn(
+          `⚠️ Buy ${swap.txId} landed but position ${position.id} is closed, ${result.outputAmount} tokens of ${swap.tokenAddress} are untracked`
+        );
+        return true;
+      }
+      await this.addTrancheFill(
+        position,
+        result,
+        fillPrice,
+        swap.signalId || undefined
+      );
+      console.log(
+        `✅ Unconfirmed buy ${swap.txId} of ${swap.tokenAddress} landed late, added to position ${position.id}`
+      );
+      return true;
+    }
+
+    if (swap.kind === "SCALE_IN") {
+      console.warn(
+        `⚠️ Tranche ${swap.txId} landed but position ${swap.positionId} is gone, ${result.outputAmount} tokens of ${swap.tokenAddress} are untracked`
+      );
+      return true;
+    }
+
+    this.db
+      .prepare(
+        `
+        INSERT INTO trades (
+          id,
+          token_address,
+          position_size,
+          entry_price,
+          entry_time,
+          status,
+          signal_id,
+          tx_id,
+          token_amount,
+          sol_amount,
+          fee,
+          priority_fee,
+          effective_price,
+          sizing_strategy,
+          sizing_inputs,
+          sizing_lamports,
+          paper
+        ) VALUES (?, ?, ?, ?, unixepoch(), ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `
+      )
+      .run(
+        randomUUID(),
+        swap.tokenAddress,
+        result.inputAmount,
+        fillPrice,
+        "EXECUTED",
+        swap.signalId,
+        result.txid,
+        result.outputAmount,
+        result.inputAmount,
+        result.fee,
+        result.priorityFee ?? null,
+        result.effectivePrice,
+        details.sizingStrategy ?? null,
+        details.sizingInputs ?? null,
+        details.sizingLamports ?? null,
+        details.paper ? 1 : 0
+      );
+
+    const created = await this.createPosition({
+      tokenAddress: swap.tokenAddress,
+      amount: result.outputAmount,
+      entryPrice: fillPrice,
+      stopLossPrice: details.stopLossPrice,
+      takeProfitPrice: details.takeProfitPrice,
+      plannedSize: details.plannedSize,
+      deployedSize: result.inputAmount,
+      tranchesPlanned: details.tranchesPlanned,
+      feesPaid: result.fee,
+      signalId: swap.signalId || undefined,
+      paper: details.paper,
+    });
+
+    if (details.orderId) {
+      this.db
+        .prepare(
+          `
+          UPDATE pending_orders
+          SET status = 'FILLED', filled_at = ?, filled_price = ?, tx_id = ?, position_id = ?
+          WHERE id = ?
+        `
+        )
+        .run(Date.now(), fillPrice, result.txid, created.id, details.orderId);
+    }
+
+    console.log(
+      `✅ Unconfirmed buy ${swap.txId} of ${swap.tokenAddress} landed late, opened position ${created.id}`
+    );
+    return true;
+  }
+
+  // Settle a pending unconfirmed swap, false if it was already settled
+  private resolveUnconfirmedSwap(
+    id: string,
+    status: "CONFIRMED" | "FAILED" | "DROPPED"
+  ): boolean {
+    const result = this.db
+      .prepare(
+        `UPDATE unconfirmed_swaps SET status = ?, resolved_at = ? WHERE id = ? AND status = 'PENDING'`
+      )
+      .run(status, Date.now(), id);
+    return result.changes > 0;
+  }
+
+  /**
+   * Record a sell in the trades table along with what triggered it
+   *
+   * @returns The trade id and its realized P&L, null when the exit price is unknown
+   */
+  private async recordSellTrade(
+    position: Position,
+    result: SwapResponse,
+    exitPrice: number | null,
+    exitReason: ExitReason,
+    reasoning?: string
+  ): Promise<{ tradeId: string; profitLoss: number | null }> {
+    const { normalizeTokenAmount } = await import("../utils/token");
+    const profitLoss =
+      exitPrice !== null
+        ? normalizeTokenAmount(
+            result.inputAmount,
+            this.getTokenDecimals(position.tokenAddress)
+          ) *
+          (exitPrice - position.entryPrice)
+        : null;
+
+    const tradeId = randomUUID();
+    this.db
+      .prepare(
+        `
+        INSERT INTO trades (
+          id,
+          token_address,
+          position_size,
+          entry_price,
+          exit_price,
+          exit_time,
+          status,
+          profit_loss,
+          tx_id,
+          exit_reason,
+          token_amount,
+          sol_amount,
+          fee,
+          priority_fee,
+          effective_price,
+          paper
+        ) VALUES (?, ?, ?, ?, ?, unixepoch(), ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `
+      )
+      .run(
+        tradeId,
+        position.tokenAddress,
+        result.inputAmount,
+        position.entryPrice,
+        exitPrice,
+        "CLOSED",
+        profitLoss,
+        result.txid,
+        exitReason,
+        result.inputAmount,
+        result.outputAmount,
+        result.fee,
+        result.priorityFee ?? null,
+        result.effectivePrice,
+        position.paper ? 1 : 0
+      );
+
+    this.recordExit(tradeId, position, exitReason, exitPrice, reasoning);
+    return { tradeId, profitLoss };
+  }
+
+  /**
+   * Record what triggered an exit in the trade_exits table
+   *
+   * Captures a snapshot of the position's prices at the time of the exit so
+   * stop-loss, trailing-stop, signal and manual exits can be told apart later.
+   */
+  recordExit(
+    tradeId: string,
+    position: Position,
+    triggerType: ExitReason,
+    triggerPrice: number | null,
+    reasoning?: string
+  ): ExitRecord {
+    const highestPrice = position.highestPrice || position.entryPrice;
+    const record: ExitRecord = {
+      id: randomUUID(),
+      tradeId,
+      positionId: position.id,
+      triggerType,
+      triggerPrice,
+      entryPrice: position.entryPrice,
+      highestPrice,
+      stopLossPrice: position.stopLossPrice,
+      takeProfitPrice: position.takeProfitPrice,
+      drawdownPercentage:
+        triggerPrice !== null && highestPrice > 0
+          ? ((highestPrice - triggerPrice) / highestPrice) * 100
+          : null,
+      profitLossPercentage:
+        triggerPrice !== null && position.entryPrice > 0
+          ? ((triggerPrice - position.entryPrice) / position.entryPrice) * 100
+          : null,
+      reasoning: reasoning || null,
+    };
+
+    this.db
+      .prepare(
+        `
+      INSERT INTO trade_exits (
+        id,
+        trade_id,
+        position_id,
+        trigger_type,
+        trigger_price,
+        entry_price,
+        highest_price,
+        stop_loss_price,
+        take_profit_price,
+        drawdown_percentage,
+        profit_loss_percentage,
+        reasoning
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `
+      )
+      .run(
+        record.id,
+        record.tradeId,
+        record.positionId,
+        record.triggerType,
+        record.triggerPrice,
+        record.entryPrice,
+        record.highestPrice,
+        record.stopLossPrice,
+        record.takeProfitPrice,
+        record.drawdownPercentage,
+        record.profitLossPercentage,
+        record.reasoning
+      );
+
+    return record;
+  }
+
+  // Store a price sample with its source and drop samples older than a day
+  private recordPrice(tokenAddress: string, price: number, source: string) {
+    const now = Date.now();
+    this.db
+      .prepare(
+        `INSERT INTO price_history (token_address, price, timestamp, source) VALUES (?, ?, ?, ?)`
+      )
+      .run(tokenAddress, price, now, source);
+    this.db
+      .prepare(
+        `DELETE FROM price_history WHERE token_address = ? AND timestamp < ?`
+      )
+      .run(tokenAddress, now - 24 * 60 * 60 * 1000);
+  }
+
+  // Get the most recent stored prices for a token in chronological order
+  private getRecentPrices(tokenAddress: string, limit: number): number[] {
+    const rows = this.db
+      .prepare(
+        `
+      SELECT price FROM price_history
+      WHERE token_address = ?
+      ORDER BY timestamp DESC
+      LIMIT ?
+    `
+      )
+      .all(tokenAddress, limit) as { price: number }[];
+
+    return rows.map((row) => row.price).reverse();
+  }
+
+  // Quote settings for a position's token, with slippage from its current liquidity
+  private async getPositionSwapSettings(
+    position: Position
+  ): Promise<SwapSettings> {
+    let liquidity: number | undefined;
+    try {
+      const tokenInfo = await this.getTokenInfo(position.tokenAddress);
+      liquidity = tokenInfo?.liquidity;
+    } catch (error) {
+      console.warn(
+        `Error getting liquidity for ${position.tokenAddress}, using max slippage`
+      );
+    }
+    return getSwapSettings(getStrategyConfig(position.strategy), liquidity);
+  }
+
+  // Token info from Jupiter. An offline venue's tokens are listed nowhere
+  private async getTokenInfo(tokenAddress: string): Promise<TokenInfo | null> {
+    if (this.swapVenue.offline) return null;
+    return this.jupiterService.getTokenInfo(tokenAddress);
+  }
+
+  // Paper positions trade against the simulator, whatever the current mode
+  private getSwapVenue(position: Position): SwapVenue {
+    return position.paper ? this.paperVenue : this.swapVenue;
+  }
+
+  // Tokens held for a position. Paper positions and positions bought from an
+  // offline venue hold nothing on-chain, their balance is the amount tracked
+  private async getHeldTokenBalance(
+    position: Position
+  ): Promise<bigint | null> {
+    if (position.paper || this.swapVenue.offline) {
+      return BigInt(Math.floor(position.amount));
+    }
+
+    const { getTokenBalance } = await import("../utils/token-balance");
+    return getTokenBalance(
+      position.tokenAddress,
+      this.walletClient.getAddress()
+    );
+  }
+
+  // Get token decimals from the tokens table (default to 9 for meme tokens)
+  private getTokenDecimals(tokenAddress: string): number {
+    const tokenRecord = this.db
+      .prepare(`SELECT decimals FROM tokens WHERE address = ?`)
+      .get(tokenAddress) as { decimals?: number } | undefined;
+    return tokenRecord?.decimals || 9;
+  }
+
+  async closePositionByToken(
+    tokenAddress: string,
+    exitReason: ExitReason = "MANUAL",
+    reasoning?: string,
+    swapSettings?: SwapSettings
+  ): Promise<boolean> {
+    try {
+      const position = await this.getPositionByToken(tokenAddress);
+      if (!position) {
+        return false;
+      }
+
+      return await this.closePosition(
+        position.id,
+        exitReason,
+        reasoning,
+        swapSettings
+      );
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Panic sell: close every active position at once, without TWAP chunks or
+   * a price impact cap
+   *
+   * @returns The outcome for each position
+   */
+  async closeAllPositions(): Promise<PanicSellResult[]> {
+    const positions = await this.getAllActivePositions();
+    console.log(`🚨 Panic selling ${positions.length} active positions`);
+
+    const results: PanicSellResult[] = [];
+    for (const position of positions) {
+      try {
+        const success = await this.closePosition(
+          position.id,
+          "PANIC_SELL",
+          "Panic sell of all positions"
+        );
+        results.push({
+          positionId: position.id,
+          tokenAddress: position.tokenAddress,
+          success,
+          error: success ? null : "Failed to close position",
+        });
+      } catch (error) {
+        results.push({
+          positionId: position.id,
+          tokenAddress: position.tokenAddress,
+          success: false,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    const closed = results.filter((result) => result.success).length;
+    console.log(`🚨 Panic sell closed ${closed}/${results.length} positions`);
+    return results;
+  }
+
+  async getPortfolioMetrics(): Promise<PositionMetrics> {
+    // Paper positions aren't part of the wallet's portfolio
+    const positions = (await this.getAllActivePositions()).filter(
+      (position) => !position.paper
+    );
+    let totalValue = 0;
+    let totalProfitLoss = 0;
+
+    for (const position of positions) {
+      if (position.currentPrice !== null) {
+        try {
+          // Get token decimals from the database
+          const tokenRecord = this.db
+            .prepare(
+              `
+            SELECT decimals FROM tokens WHERE address = ?
+          `
+            )
+            .get(position.tokenAddress) as { decimals?: number } | undefined;
+
+          // Use default of 9 decimals if not found
+          const tokenDecimals = tokenRecord?.decimals || 9;
+
+          // Normalize amount using token-specific decimals (same as in dashboard)
+          const { normalizeTokenAmount } = await import("../utils/token");
+          const normalizedAmount = normalizeTokenAmount(
+            position.amount,
+            tokenDecimals
+          );
+
+          // Calculate value using normalized amount
+          const currentValue = normalizedAmount * position.currentPrice;
+          const entryValue = normalizedAmount * position.entryPrice;
+          const positionProfitLoss = currentValue - entryValue;
+
+          // Add to totals
+          totalValue += currentValue;
+          totalProfitLoss += positionProfitLoss;
+        } catch (error) {
+          console.error(
+            `Error calculating position metrics for ${position.tokenAddress}:`,
+            error
+          );
+        }
+      }
+    }
+
+    // Calculate total entry value for percentage calculation (matching dashboard.ejs)
+    let totalEntryValue = 0;
+    for (const position of positions) {
+      try {
+        const tokenRecord = this.db
+          .prepare(
+            `
+          SELECT decimals FROM tokens WHERE address = ?
+        `
+          )
+          .get(position.tokenAddress) as { decimals?: number } | undefined;
+        const tokenDecimals = tokenRecord?.decimals || 9;
+        const { normalizeTokenAmount } = await import("../utils/token");
+        const normalizedAmount = normalizeTokenAmount(
+          position.amount,
+          tokenDecimals
+        );
+        totalEntryValue += normalizedAmount * position.entryPrice;
+      } catch (error) {
+        // Ignore errors for percentage calculation
+      }
+    }
+
+    // Calculate percentage based on total entry value (matching dashboard.ejs)
+    const profitLossPercentage =
+      totalEntryValue > 0 ? (totalProfitLoss / totalEntryValue) * 100 : 0;
+
+    return {
+      totalValue,
+      profitLoss: totalProfitLoss,
+      profitLossPercentage,
+    };
+  }
+
+  /**
    * Get the total profit/loss from all closed positions
    * Note: This provides a historical record of P&L from the positions table
    */
@@ -658,7 +2805,7 @@ export class PositionManager {
           `
         SELECT id, token_address, profit_loss, exit_time, amount, entry_price
         FROM positions 
-        WHERE status = 'CLOSED'
+        WHERE status = 'CLOSED' AND COALESCE(paper, 0) = 0
         ORDER BY exit_time DESC
       `
         )
@@ -689,7 +2836,7 @@ export class PositionManager {
           `
         SELECT SUM(profit_loss) as total_pnl 
         FROM positions 
-        WHERE status = 'CLOSED'
+        WHERE status = 'CLOSED' AND COALESCE(paper, 0) = 0
       `
         )
         .get() as { total_pnl: number | null };
@@ -712,13 +2859,16 @@ export class PositionManager {
    */
   async getTotalTradesPnL(): Promise<number> {
     try {
-      // Get all closed trades
+      // Get all closed trades. Sells made without any price have no exit
+      // price to compute a P&L from, they are left out rather than counted
+      // as a total loss
       const allTrades = this.db
         .prepare(
           `
         SELECT token_address, position_size, entry_price, exit_price 
         FROM trades 
-        WHERE status = 'CLOSED'
+        WHERE status = 'CLOSED' AND COALESCE(paper, 0) = 0
+          AND exit_price IS NOT NULL
       `
         )
         .all() as {
@@ -768,6 +2918,60 @@ export class PositionManager {
     }
   }
 
+  /**
+   * Summarize the live or the paper book
+   *
+   * @param paper - Which book to summarize
+   */
+  getBookSummary(paper: boolean): TradingBookSummary {
+    const flag = paper ? 1 : 0;
+
+    const open = this.db
+      .prepare(
+        `
+        SELECT
+          COUNT(*) as openPositions,
+          COALESCE(SUM(COALESCE(deployed_size, planned_size, 0)), 0) as deployed
+        FROM positions
+        WHERE status = 'ACTIVE' AND COALESCE(paper, 0) = ?
+      `
+      )
+      .get(flag) as { openPositions: number; deployed: number };
+
+    const trades = this.db
+      .prepare(
+        `
+        SELECT
+          COUNT(CASE WHEN exit_time > 0 THEN 1 END) as closedTrades,
+          COUNT(CASE WHEN exit_time > 0 AND profit_loss > 0 THEN 1 END) as winningTrades,
+          COALESCE(SUM(CASE WHEN exit_time > 0 THEN profit_loss END), 0) as realizedPnl,
+          COALESCE(SUM(fee), 0) as fees
+        FROM trades
+        WHERE COALESCE(paper, 0) = ?
+      `
+      )
+      .get(flag) as {
+      closedTrades: number;
+      winningTrades: number;
+      realizedPnl: number;
+      fees: number;
+    };
+
+    return {
+      paper,
+      openPositions: open.openPositions,
+      deployedSol: Number(open.deployed) / 1e9,
+      closedTrades: trades.closedTrades,
+      winningTrades: trades.winningTrades,
+      winRate:
+        trades.closedTrades > 0
+          ? (trades.winningTrades / trades.closedTrades) * 100
+          : null,
+      realizedPnl: Number(trades.realizedPnl) || 0,
+      feesSol: Number(trades.fees) / 1e9,
+    };
+  }
+
   /**
    * Get comprehensive profit/loss data from all sources
    * This combines active positions, closed positions, and trades
@@ -846,6 +3050,16 @@ export class PositionManager {
       // Get wallet address
       const walletAddress = this.walletClient.getAddress();
 
+      // An offline venue holds the wallet's SOL and prices it itself
+      if (this.swapVenue.getBalance && this.swapVenue.getPrice) {
+        const WRAPPED_SOL = "So11111111111111111111111111111111111111112";
+        solBalanceInSol =
+          (await this.swapVenue.getBalance(walletAddress)) / 10 ** 9;
+        solPrice = (await this.swapVenue.getPrice(WRAPPED_SOL)) || 0;
+        solValueUsd = solBalanceInSol * solPrice;
+        return { solBalanceInSol, solValueUsd, solPrice };
+      }
+
       // Get public key for balance checking
       let publicKey = null;
       if (this.walletClient.publicKey) {
@@ -1101,7 +3315,15 @@ export class PositionManager {
 export const createPositionManager = (
   db: Database.Database,
   jupiterService: JupiterService,
-  walletClient: SolanaWalletClient
+  walletClient: SolanaWalletClient,
+  swapVenue?: SwapVenue,
+  priceProvider?: PriceProvider
 ) => {
-  return new PositionManager(db, jupiterService, walletClient);
+  return new PositionManager(
+    db,
+    jupiterService,
+    walletClient,
+    swapVenue,
+    priceProvider
+  );
 };
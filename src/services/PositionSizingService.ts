@@ -0,0 +1,412 @@
+// src/services/PositionSizingService.ts
+import { generateObject, ModelClass, IAgentRuntime } from "@elizaos/core";
+import Database from "better-sqlite3";
+import { z } from "zod";
+import { getStrategyConfig } from "../utils/strategy";
+import { calculateVolatility } from "../utils/volatility";
+
+export type SizingStrategyName =
+  | "fixed-fraction"
+  | "kelly"
+  | "volatility"
+  | "llm";
+
+export const SIZING_STRATEGIES: SizingStrategyName[] = [
+  "fixed-fraction",
+  "kelly",
+  "volatility",
+  "llm",
+];
+
+// Size chosen by a sizing strategy, before liquidity and risk adjustments
+export interface SizingDecision {
+  strategy: SizingStrategyName;
+  lamports: number;
+  // What the strategy based its size on, stored with the trade
+  inputs: Record<string, unknown>;
+  reasoning: string | null;
+}
+
+/**
+ * A position sizing strategy
+ *
+ * Strategies size a BUY signal as lamports out of the wallet balance. The
+ * caller applies the liquidity, volume and rug-risk haircuts and the
+ * portfolio risk limits on top.
+ */
+export interface SizingStrategy {
+  name: SizingStrategyName;
+  size(signal: any, balance: number): Promise<SizingDecision>;
+}
+
+export interface SizingSettings {
+  strategy: SizingStrategyName;
+  // Fixed share of the balance per position, null scales it with signal
+  // strength from 0.5% to 5%
+  fixedFractionPercentage: number | null;
+  // Upper bound on any strategy's size, in percent of the balance
+  maxPercentage: number;
+  // Share of the full Kelly fraction to bet
+  kellyFraction: number;
+  // Closed positions a channel needs before Kelly sizing is used
+  kellyMinTrades: number;
+  // Expected move of a position per price check, in percent of the balance
+  targetVolatilityPercentage: number;
+}
+
+const PositionSizeSchema = z.object({
+  lamports: z.number(),
+  reasoning: z.string(),
+});
+
+// Volatility assumed for tokens without enough price history, in percent
+const DEFAULT_VOLATILITY_PERCENTAGE = 10;
+// Minimum number of stored prices before a token's volatility is used
+const MIN_VOLATILITY_SAMPLES = 5;
+
+/**
+ * Read the sizing settings from the environment
+ */
+export const getSizingSettings = (): SizingSettings => {
+  const read = (name: string, fallback: number) => {
+    const parsed = Number(process.env[name]);
+    return process.env[name] && Number.isFinite(parsed) && parsed > 0
+      ? parsed
+      : fallback;
+  };
+
+  const strategy = (process.env.POSITION_SIZING_STRATEGY ||
+    "fixed-fraction") as SizingStrategyName;
+  if (!SIZING_STRATEGIES.includes(strategy)) {
+    console.warn(
+      `Unknown position sizing strategy "${strategy}", using fixed-fraction`
+    );
+  }
+
+  return {
+    strategy: SIZING_STRATEGIES.includes(strategy)
+      ? strategy
+      : "fixed-fraction",
+    fixedFractionPercentage: process.env.SIZING_FIXED_FRACTION_PERCENTAGE
+      ? read("SIZING_FIXED_FRACTION_PERCENTAGE", 2)
+      : null,
+    maxPercentage: read("SIZING_MAX_PERCENTAGE", 5),
+    kellyFraction: read("KELLY_FRACTION", 0.25),
+    kellyMinTrades: read("KELLY_MIN_TRADES", 20),
+    targetVolatilityPercentage: read(
+      "SIZING_TARGET_VOLATILITY_PERCENTAGE",
+      0.25
+    ),
+  };
+};
+
+/**
+ * Fixed share of the balance, or scaled linearly with the signal's buy
+ * strength when no fixed share is configured
+ */
+export class FixedFractionSizing implements SizingStrategy {
+  readonly name = "fixed-fraction" as const;
+
+  constructor(private settings: SizingSettings) {}
+
+  async size(signal: any, balance: number): Promise<SizingDecision> {
+    const buyStrength = signal.buySignalStrength || signal.confidence || 50;
+
+    // Minimum 0.5%, maximum 5% when scaled with the signal
+    const percentage = Math.min(
+      this.settings.fixedFractionPercentage ?? 0.5 + (buyStrength / 100) * 4.5,
+      this.settings.maxPercentage
+    );
+
+    return {
+      strategy: this.name,
+      lamports: Math.floor(balance * (percentage / 100)),
+      inputs: {
+        balance,
+        buyStrength,
+        fixedFractionPercentage: this.settings.fixedFractionPercentage,
+        percentage,
+      },
+      reasoning: null,
+    };
+  }
+}
+
+/**
+ * Fractional Kelly from the win rate and payoff of the signal's channel
+ *
+ * Each closed position from the channel counts as one bet, its return the
+ * value its exits sold for against the entry price. Channels with too little
+ * history are sized with the fallback strategy, channels without an edge
+ * aren't bought at all.
+ */
+export class KellySizing implements SizingStrategy {
+  readonly name = "kelly" as const;
+
+  constructor(
+    private db: Database.Database,
+    private settings: SizingSettings,
+    private fallback: SizingStrategy
+  ) {}
+
+  async size(signal: any, balance: number): Promise<SizingDecision> {
+    const channel: string | null = signal.source || null;
+    const returns = channel ? this.getChannelReturns(channel) : [];
+
+    if (returns.length < this.settings.kellyMinTrades) {
+      const decision = await this.fallback.size(signal, balance);
+      return {
+        ...decision,
+        strategy: this.name,
+        inputs: {
+          ...decision.inputs,
+          channel,
+          closedPositions: returns.length,
+          fallback: decision.strategy,
+        },
+        reasoning: `${returns.length} closed positions from ${
+          channel || "unknown channel"
+        }, below ${this.settings.kellyMinTrades}, sized with ${
+          decision.strategy
+        }`,
+      };
+    }
+
+    const wins = returns.filter((r) => r > 0);
+    const losses = returns.filter((r) => r <= 0);
+    const winRate = wins.length / returns.length;
+    const averageWin =
+      wins.length > 0 ? wins.reduce((sum, r) => sum + r, 0) / wins.length : 0;
+    const averageLoss =
+      losses.length > 0
+        ? Math.abs(losses.reduce((sum, r) => sum + r, 0) / losses.length)
+        : 0;
+
+    // f* = p - (1 - p) / b, with b the payoff ratio of the average win to
+    // the average loss. Without losses the edge is capped by the max size
+    const payoffRatio = averageLoss > 0 ? averageWin / averageLoss : null;
+    const kelly =
+      payoffRatio === null
+        ? 1
+        : payoffRatio > 0
+        ? winRate - (1 - winRate) / payoffRatio
+        : -1;
+    const percentage = Math.min(
+      Math.max(kelly * this.settings.kellyFraction * 100, 0),
+      this.settings.maxPercentage
+    );
+
+    return {
+      strategy: this.name,
+      lamports: Math.floor(balance * (percentage / 100)),
+      inputs: {
+        balance,
+        channel,
+        closedPositions: returns.length,
+        winRate,
+        averageWin,
+        averageLoss,
+        payoffRatio,
+        kelly,
+        kellyFraction: this.settings.kellyFraction,
+        percentage,
+      },
+      reasoning:
+        kelly > 0
+          ? null
+          : `${channel} has no edge (win rate ${(winRate * 100).toFixed(
+              1
+            )}%, payoff ${payoffRatio?.toFixed(2)})`,
+    };
+  }
+
+  // Return (as a fraction) of each closed position opened from the channel
+  private getChannelReturns(channel: string): number[] {
+    const rows = this.db
+      .prepare(
+        `
+        SELECT
+          SUM(trades.token_amount * trades.exit_price) /
+            SUM(trades.token_amount * trades.entry_price) - 1 as positionReturn
+        FROM positions
+        JOIN signals ON signals.id = positions.signal_id
+        JOIN trade_exits ON trade_exits.position_id = positions.id
+        JOIN trades ON trades.id = trade_exits.trade_id
+        WHERE positions.status = 'CLOSED'
+        AND signals.source = ?
+        GROUP BY positions.id
+        HAVING SUM(trades.token_amount * trades.entry_price) > 0
+      `
+      )
+      .all(channel) as { positionReturn: number }[];
+
+    return rows
+      .map((row) => Number(row.positionReturn))
+      .filter((r) => Number.isFinite(r));
+  }
+}
+
+/**
+ * Size inversely to the token's volatility, so each position is expected to
+ * move the balance by about the same amount
+ */
+export class VolatilityTargetSizing implements SizingStrategy {
+  readonly name = "volatility" as const;
+
+  constructor(
+    private db: Database.Database,
+    private settings: SizingSettings
+  ) {}
+
+  async size(signal: any, balance: number): Promise<SizingDecision> {
+    const prices = this.getRecentPrices(
+      signal.tokenAddress,
+      getStrategyConfig().volatilityLookback
+    );
+    const measured =
+      prices.length >= MIN_VOLATILITY_SAMPLES
+        ? calculateVolatility(prices)
+        : null;
+    // Fresh launches have no history yet and are assumed to be volatile
+    const volatility =
+      measured && measured > 0 ? measured : DEFAULT_VOLATILITY_PERCENTAGE;
+
+    const percentage = Math.min(
+      (this.settings.targetVolatilityPercentage / volatility) * 100,
+      this.settings.maxPercentage
+    );
+
+    return {
+      strategy: this.name,
+      lamports: Math.floor(balance * (percentage / 100)),
+      inputs: {
+        balance,
+        priceSamples: prices.length,
+        measuredVolatility: measured,
+        volatility,
+        targetVolatilityPercentage: this.settings.targetVolatilityPercentage,
+        percentage,
+      },
+      reasoning: null,
+    };
+  }
+
+  private getRecentPrices(tokenAddress: string, limit: number): number[] {
+    const rows = this.db
+      .prepare(
+        `
+        SELECT price FROM price_history
+        WHERE token_address = ?
+        ORDER BY timestamp DESC
+        LIMIT ?
+      `
+      )
+      .all(tokenAddress, limit) as { price: number }[];
+
+    return rows.map((row) => row.price).reverse();
+  }
+}
+
+/**
+ * Let the model propose a size from the signal, bounded by the max size.
+ * Falls back to another strategy if the model call fails
+ */
+export class LlmAdvisedSizing implements SizingStrategy {
+  readonly name = "llm" as const;
+
+  constructor(
+    private runtime: IAgentRuntime,
+    private settings: SizingSettings,
+    private fallback: SizingStrategy
+  ) {}
+
+  async size(signal: any, balance: number): Promise<SizingDecision> {
+    const maxLamports = Math.floor(
+      balance * (this.settings.maxPercentage / 100)
+    );
+
+    try {
+      const prompt = `
+      You are sizing a position for a Solana memecoin trading bot.
+
+      Wallet balance: ${balance} lamports (${(balance / 1e9).toFixed(4)} SOL)
+      Maximum position size: ${maxLamports} lamports (${
+        this.settings.maxPercentage
+      }% of balance)
+
+      Signal details:
+      - Token address: ${signal.tokenAddress}
+      - Channel: ${signal.source || "Unknown"}
+      - Confidence: ${signal.confidence || "Unknown"}
+      - Buy signal strength: ${signal.buySignalStrength || "Unknown"}
+      - Urgency: ${signal.urgencyLevel || "Unknown"}
+      - Liquidity: ${signal.liquidity || "Unknown"}
+      - 24h volume: ${signal.volume24h || "Unknown"}
+      - Pump detected: ${signal.pumpDetected ? "Yes" : "No"}
+      - Rug score: ${signal.rugScore ?? "Unknown"}
+      - Reason for buy: ${signal.reasonForBuy || "Unknown"}
+
+      How many lamports should be spent on this position? Return the lamports
+      and your reasoning.
+      `;
+
+      const result = await generateObject({
+        runtime: this.runtime,
+        context: prompt,
+        modelClass: ModelClass.LARGE,
+        schema: PositionSizeSchema,
+        mode: "auto",
+      });
+      const advice = result.object as z.infer<typeof PositionSizeSchema>;
+
+      return {
+        strategy: this.name,
+        lamports: Math.floor(
+          Math.min(Math.max(Number(advice.lamports) || 0, 0), maxLamports)
+        ),
+        inputs: {
+          balance,
+          maxLamports,
+          advisedLamports: advice.lamports,
+        },
+        reasoning: advice.reasoning,
+      };
+    } catch (error) {
+      console.error("Error getting position size advice:", error);
+      const decision = await this.fallback.size(signal, balance);
+      return {
+        ...decision,
+        strategy: this.name,
+        inputs: { ...decision.inputs, fallback: decision.strategy },
+        reasoning: `Model call failed, sized with ${decision.strategy}`,
+      };
+    }
+  }
+}
+
+/**
+ * Create the sizing strategy configured by POSITION_SIZING_STRATEGY
+ *
+ * @param db - Database with the positions, trades and price history
+ * @param runtime - Agent runtime, used by LLM-advised sizing
+ * @param name - Strategy to create instead of the configured one
+ */
+export const createSizingStrategy = (
+  db: Database.Database,
+  runtime: IAgentRuntime,
+  name?: SizingStrategyName
+): SizingStrategy => {
+  const settings = getSizingSettings();
+  const fixedFraction = new FixedFractionSizing(settings);
+
+  switch (name || settings.strategy) {
+    case "kelly":
+      return new KellySizing(db, settings, fixedFraction);
+    case "volatility":
+      return new VolatilityTargetSizing(db, settings);
+    case "llm":
+      return new LlmAdvisedSizing(runtime, settings, fixedFraction);
+    default:
+      return fixedFraction;
+  }
+};
@@ -0,0 +1,356 @@
+// src/services/PriceProvider.ts
+import { Connection, PublicKey } from "@solana/web3.js";
+import { JupiterService } from "./JupiterService";
+import { SwapVenue } from "../types/trade";
+
+// A price observation and where it came from
+export interface PriceQuote {
+  // Price in USD per token
+  price: number;
+  // Name of the provider that produced the price
+  source: string;
+  // When the source observed the price (ms)
+  timestamp: number;
+}
+
+// A source of token prices in USD
+export interface PriceProvider {
+  readonly name: string;
+  // Resolves to null when the source has no price for the token
+  getPrice(tokenAddress: string): Promise<PriceQuote | null>;
+}
+
+const WRAPPED_SOL = "So11111111111111111111111111111111111111112";
+
+// Prices older than this are ignored
+const DEFAULT_MAX_PRICE_AGE_SECONDS = 120;
+// Moves larger than this from the last accepted price are cross-checked
+const DEFAULT_OUTLIER_PERCENTAGE = 50;
+// Two sources agree if their prices are within this many percent
+const SOURCE_AGREEMENT_PERCENTAGE = 10;
+// The last accepted price is only used as a reference for this long
+const REFERENCE_PRICE_TTL = 10 * 60 * 1000;
+
+/**
+ * Prices from the Jupiter price API
+ */
+export class JupiterPriceProvider implements PriceProvider {
+  readonly name = "jupiter";
+
+  constructor(private jupiterService: JupiterService) {}
+
+  async getPrice(tokenAddress: string): Promise<PriceQuote | null> {
+    const price = await this.jupiterService.getCurrentPrice(tokenAddress);
+    if (price === null || !(price > 0)) return null;
+
+    return {
+      price,
+      source: this.name,
+      // Cached prices keep the time they were fetched
+      timestamp:
+        this.jupiterService.getPriceTimestamp(tokenAddress) ?? Date.now(),
+    };
+  }
+}
+
+/**
+ * Prices from the DexScreener pair API, using the most liquid Solana pair
+ */
+export class DexScreenerPriceProvider implements PriceProvider {
+  readonly name = "dexscreener";
+
+  private readonly PAIRS_API = "https://api.dexscreener.com/latest/dex/tokens";
+
+  async getPrice(tokenAddress: string): Promise<PriceQuote | null> {
+    try {
+      const response = await fetch(`${this.PAIRS_API}/${tokenAddress}`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const data = await response.json();
+
+      const pairs = (data?.pairs || []).filter(
+        (pair: any) =>
+          pair.chainId === "solana" &&
+          pair.baseToken?.address === tokenAddress &&
+          Number(pair.priceUsd) > 0
+      );
+      if (pairs.length === 0) return null;
+
+      const deepest = pairs.reduce((best: any, pair: any) =>
+        (pair.liquidity?.usd || 0) > (best.liquidity?.usd || 0) ? pair : best
+      );
+
+      return {
+        price: Number(deepest.priceUsd),
+        source: this.name,
+        timestamp: Date.now(),
+      };
+    } catch (error) {
+      console.error(
+        `Error getting DexScreener price for ${tokenAddress}:`,
+        error
+      );
+      return null;
+    }
+  }
+}
+
+/**
+ * Prices read from pool reserves on-chain
+ *
+ * Reads the pump.fun bonding curve of the token, which covers fresh launches
+ * that have not migrated to an AMM yet and are often missing from price APIs.
+ */
+export class OnChainPoolPriceProvider implements PriceProvider {
+  readonly name = "onchain";
+
+  private readonly PUMP_FUN_PROGRAM = new PublicKey(
+    "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P"
+  );
+  // pump.fun tokens are minted with 6 decimals
+  private readonly PUMP_FUN_DECIMALS = 6;
+
+  private connection: Connection | null = null;
+
+  constructor(private jupiterService: JupiterService) {}
+
+  async getPrice(tokenAddress: string): Promise<PriceQuote | null> {
+    try {
+      const [bondingCurve] = PublicKey.findProgramAddressSync(
+        [Buffer.from("bonding-curve"), new PublicKey(tokenAddress).toBuffer()],
+        this.PUMP_FUN_PROGRAM
+      );
+      const account = await this.getConnection().getAccountInfo(bondingCurve);
+      if (!account || account.data.length < 49) return null;
+
+      // Layout: 8 byte discriminator, virtual token reserves, virtual SOL
+      // reserves, real token reserves, real SOL reserves, total supply (u64s)
+      // and a completed flag
+      const data = account.data;
+      const virtualTokenReserves = Number(data.readBigUInt64LE(8));
+      const virtualSolReserves = Number(data.readBigUInt64LE(16));
+      const complete = data[48] === 1;
+
+      // Completed curves have migrated, their reserves no longer move
+      if (complete || virtualTokenReserves === 0) return null;
+
+      const solPrice = await this.jupiterService.getCurrentPrice(WRAPPED_SOL);
+      if (!solPrice) return null;
+
+      const priceInSol =
+        virtualSolReserves /
+        1e9 /
+        (virtualTokenReserves / 10 ** this.PUMP_FUN_DECIMALS);
+
+      return {
+        price: priceInSol * solPrice,
+        source: this.name,
+        timestamp: Date.now(),
+      };
+    } catch (error) {
+      console.error(`Error reading on-chain price for ${tokenAddress}:`, error);
+      return null;
+    }
+  }
+
+  private getConnection(): Connection {
+    if (!this.connection) {
+      this.connection = new Connection(
+        process.env.SOLANA_RPC_URL || "https://api.mainnet-beta.solana.com",
+        "confirmed"
+      );
+    }
+    return this.connection;
+  }
+}
+
+/**
+ * Prices from an offline swap venue, which is its own market
+ */
+export class SwapVenuePriceProvider implements PriceProvider {
+  readonly name: string;
+
+  constructor(private swapVenue: SwapVenue) {
+    this.name = swapVenue.name;
+  }
+
+  async getPrice(tokenAddress: string): Promise<PriceQuote | null> {
+    const price = await this.swapVenue.getPrice?.(tokenAddress);
+    if (price == null || !(price > 0)) return null;
+
+    return { price, source: this.name, timestamp: Date.now() };
+  }
+}
+
+/**
+ * Price provider that falls back through several providers in priority order
+ *
+ * Stale prices are skipped. A price that moved more than the outlier threshold
+ * since the last accepted price is cross-checked against the other providers:
+ * it is used if another source confirms it and used with a warning if no other
+ * source has a price. A jump up is replaced if another source, at least as
+ * fresh, still agrees with the previous price. A drop is never replaced, a
+ * source still showing the old price may just be lagging behind a rug, so
+ * stops still fire on tokens that are really collapsing.
+ */
+export class PriceOracle implements PriceProvider {
+  readonly name = "oracle";
+
+  // Last accepted price per token, the reference for outlier checks
+  private lastPrices: Map<string, PriceQuote> = new Map();
+
+  constructor(
+    private providers: PriceProvider[],
+    private maxPriceAgeMs: number = DEFAULT_MAX_PRICE_AGE_SECONDS * 1000,
+    private outlierPercentage: number = DEFAULT_OUTLIER_PERCENTAGE
+  ) {}
+
+  async getPrice(tokenAddress: string): Promise<PriceQuote | null> {
+    const reference = this.getReferencePrice(tokenAddress);
+
+    for (let i = 0; i < this.providers.length; i++) {
+      const quote = await this.getFreshPrice(this.providers[i], tokenAddress);
+      if (!quote) continue;
+
+      const move = reference ? this.deviation(quote.price, reference.price) : 0;
+      if (!reference || move <= this.outlierPercentage) {
+        return this.accept(tokenAddress, quote);
+      }
+
+      // Large move, ask the remaining providers before trusting it
+      console.warn(
+        `⚠️ ${quote.source} price for ${tokenAddress} moved`,
+        `${move.toFixed(1)}% since the last ${reference.source} price,`,
+        "cross-checking"
+      );
+      for (const provider of this.providers.slice(i + 1)) {
+        const check = await this.getFreshPrice(provider, tokenAddress);
+        if (!check) continue;
+
+        if (
+          this.deviation(check.price, quote.price) <=
+          SOURCE_AGREEMENT_PERCENTAGE
+        ) {
+          return this.accept(tokenAddress, quote);
+        }
+        if (quote.price < reference.price) {
+          const lower = check.price < quote.price ? check : quote;
+          console.warn(
+            `⚠️ ${check.source} price ${check.price} for ${tokenAddress} disagrees with the ${quote.source} drop to ${quote.price}, using the lower ${lower.source} price`
+          );
+          return this.accept(tokenAddress, lower);
+        }
+        if (
+          check.timestamp >= quote.timestamp &&
+          this.deviation(check.price, reference.price) <= this.outlierPercentage
+        ) {
+          console.warn(
+            `⚠️ Rejected outlier ${quote.source} price ${quote.price} for ${tokenAddress}, using ${check.source} price ${check.price}`
+          );
+          return this.accept(tokenAddress, check);
+        }
+      }
+
+      console.warn(
+        `⚠️ Could not confirm ${quote.source} price ${quote.price} for ${tokenAddress} with another source, using it`
+      );
+      return this.accept(tokenAddress, quote);
+    }
+
+    return null;
+  }
+
+  private async getFreshPrice(
+    provider: PriceProvider,
+    tokenAddress: string
+  ): Promise<PriceQuote | null> {
+    try {
+      const quote = await provider.getPrice(tokenAddress);
+      if (!quote) return null;
+
+      const age = Date.now() - quote.timestamp;
+      if (age > this.maxPriceAgeMs) {
+        console.warn(
+          `⚠️ Ignoring stale ${
+            quote.source
+          } price for ${tokenAddress} (${Math.round(age / 1000)}s old)`
+        );
+        return null;
+      }
+      return quote;
+    } catch (error) {
+      console.error(
+        `Error getting ${provider.name} price for ${tokenAddress}:`,
+        error
+      );
+      return null;
+    }
+  }
+
+  private getReferencePrice(tokenAddress: string): PriceQuote | null {
+    const last = this.lastPrices.get(tokenAddress);
+    if (!last || Date.now() - last.timestamp > REFERENCE_PRICE_TTL) return null;
+    return last;
+  }
+
+  private accept(tokenAddress: string, quote: PriceQuote): PriceQuote {
+    this.lastPrices.set(tokenAddress, quote);
+    return quote;
+  }
+
+  // Percentage difference of a price from a reference price
+  private deviation(price: number, reference: number): number {
+    return (Math.abs(price - reference) / reference) * 100;
+  }
+}
+
+/**
+ * Build the price oracle for the providers listed in PRICE_SOURCES
+ * (default: "jupiter,dexscreener,onchain"), in that priority order
+ *
+ * A venue that prices its own tokens (the offline mock venue) is the only
+ * source, its tokens exist nowhere else.
+ *
+ * @param jupiterService - Used for Jupiter prices and the SOL price
+ * @param swapVenue - The venue swaps go through
+ * @returns The price oracle
+ */
+export const createPriceOracle = (
+  jupiterService: JupiterService,
+  swapVenue?: SwapVenue
+) => {
+  if (swapVenue?.getPrice) {
+    return new PriceOracle([new SwapVenuePriceProvider(swapVenue)]);
+  }
+
+  const names = (process.env.PRICE_SOURCES || "jupiter,dexscreener,onchain")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const providers: PriceProvider[] = [];
+  for (const name of names) {
+    if (name === "jupiter") {
+      providers.push(new JupiterPriceProvider(jupiterService));
+    } else if (name === "dexscreener") {
+      providers.push(new DexScreenerPriceProvider());
+    } else if (name === "onchain") {
+      providers.push(new OnChainPoolPriceProvider(jupiterService));
+    } else {
+      console.warn(`Unknown price source "${name}" in PRICE_SOURCES, ignoring`);
+    }
+  }
+  if (providers.length === 0) {
+    providers.push(new JupiterPriceProvider(jupiterService));
+  }
+
+  const maxAgeSeconds = Number(process.env.PRICE_MAX_AGE_SECONDS);
+  const outlierPercentage = Number(process.env.PRICE_OUTLIER_PERCENTAGE);
+
+  return new PriceOracle(
+    providers,
+    (maxAgeSeconds > 0 ? maxAgeSeconds : DEFAULT_MAX_PRICE_AGE_SECONDS) * 1000,
+    outlierPercentage > 0 ? outlierPercentage : DEFAULT_OUTLIER_PERCENTAGE
+  );
+};
@@ -0,0 +1,142 @@
+// src/services/PriorityFeeService.ts
+import Database from "better-sqlite3";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { SwapUrgency } from "../types/trade";
+
+// Priority fee chosen for a swap
+export interface PriorityFee {
+  urgency: SwapUrgency;
+  // Compute unit price in micro-lamports estimated from recent fees
+  microLamports: number;
+  // Total priority fee in lamports passed to Jupiter, after tier cap and budget
+  lamports: number;
+}
+
+interface UrgencyTier {
+  // Percentile of recent prioritization fees to pay
+  percentile: number;
+  // Upper bound on the priority fee of a single swap, in lamports
+  maxLamports: number;
+}
+
+const URGENCY_TIERS: Record<SwapUrgency, UrgencyTier> = {
+  low: { percentile: 25, maxLamports: 100_000 },
+  medium: { percentile: 50, maxLamports: 500_000 },
+  high: { percentile: 75, maxLamports: 2_000_000 },
+};
+
+// Compute units assumed for a swap when converting a unit price to a total fee
+export const ESTIMATED_SWAP_COMPUTE_UNITS = 400_000;
+
+// Default daily budget for network fees, in SOL
+const DEFAULT_DAILY_FEE_BUDGET_SOL = 0.1;
+
+export class PriorityFeeService {
+  private connection: Connection | null = null;
+
+  constructor(private db: Database.Database) {}
+
+  /**
+   * Estimate the priority fee for a swap from recent prioritization fees
+   *
+   * The fee is the tier's percentile of recent fees paid by transactions that
+   * write to the token, capped by the tier maximum and the remaining daily budget.
+   *
+   * @param urgency - Urgency tier of the swap
+   * @param tokenAddress - Token being swapped, used for the local fee market
+   * @returns The priority fee to pay
+   */
+  async getPriorityFee(
+    urgency: SwapUrgency,
+    tokenAddress?: string
+  ): Promise<PriorityFee> {
+    const tier = URGENCY_TIERS[urgency] || URGENCY_TIERS.medium;
+
+    let microLamports = 0;
+    try {
+      const recentFees = await this.getConnection().getRecentPrioritizationFees(
+        tokenAddress
+          ? { lockedWritableAccounts: [new PublicKey(tokenAddress)] }
+          : undefined
+      );
+      microLamports = this.percentile(
+        recentFees.map((fee) => fee.prioritizationFee),
+        tier.percentile
+      );
+    } catch (error) {
+      console.error("Error fetching recent prioritization fees:", error);
+    }
+
+    const estimatedLamports = Math.ceil(
+      (microLamports * ESTIMATED_SWAP_COMPUTE_UNITS) / 1_000_000
+    );
+    const lamports = Math.max(
+      0,
+      Math.min(estimatedLamports, tier.maxLamports, this.getRemainingBudget())
+    );
+
+    return { urgency, microLamports, lamports };
+  }
+
+  /**
+   * Check whether any of today's fee budget is left
+   *
+   * @returns True if fees spent today are below the daily budget
+   */
+  hasFeeBudget(): boolean {
+    return this.getRemainingBudget() > 0;
+  }
+
+  /**
+   * Get the network fees spent today (UTC) across all live trades. Paper
+   * trades pay simulated fees and don't count against the budget
+   *
+   * @returns Fees spent in lamports
+   */
+  getFeesSpentToday(): number {
+    const startOfDay = new Date();
+    startOfDay.setUTCHours(0, 0, 0, 0);
+
+    const result = this.db
+      .prepare(
+        `
+        SELECT COALESCE(SUM(fee), 0) as total
+        FROM trades
+        WHERE COALESCE(exit_time, entry_time) >= ? AND COALESCE(paper, 0) = 0
+      `
+      )
+      .get(Math.floor(startOfDay.getTime() / 1000)) as { total: number };
+    return Number(result.total) || 0;
+  }
+
+  // Lamports left in today's fee budget
+  private getRemainingBudget(): number {
+    const budgetSol =
+      Number(process.env.DAILY_FEE_BUDGET_SOL) || DEFAULT_DAILY_FEE_BUDGET_SOL;
+    return Math.floor(budgetSol * 1e9) - this.getFeesSpentToday();
+  }
+
+  private percentile(values: number[], percentile: number): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const index = Math.min(
+      sorted.length - 1,
+      Math.floor((percentile / 100) * sorted.length)
+    );
+    return sorted[index];
+  }
+
+  private getConnection(): Connection {
+    if (!this.connection) {
+      this.connection = new Connection(
+        process.env.SOLANA_RPC_URL || "https://api.mainnet-beta.solana.com",
+        "confirmed"
+      );
+    }
+    return this.connection;
+  }
+}
+
+export const createPriorityFeeService = (db: Database.Database) => {
+  return new PriorityFeeService(db);
+};
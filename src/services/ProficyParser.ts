@@ -12,6 +12,11 @@ export const ProficyResponseSchema = z.object({
   holders: z.number(),
   solanaAddress: z.string(),
   isValid: z.boolean(),
+  // Authority flags from the "Renounced, Mint (off/on), Freezable (off/on)"
+  // line, null when the response doesn't say
+  renounced: z.boolean().nullable().optional(),
+  mintEnabled: z.boolean().nullable().optional(),
+  freezable: z.boolean().nullable().optional(),
 });
 
 export type ProficyResponseType = z.infer<typeof ProficyResponseSchema>;
@@ -47,6 +52,7 @@ Response text:
 {{text}}
 
 Extract the name, symbol, price, liquidity, market cap, any holder info, and most importantly the Solana address.
+From the authority line, set renounced, mintEnabled (Mint on) and freezable (Freezable on), or null if the line is missing.
 Be sure to handle different formatting variations and extract numbers correctly.
 If the Solana address is not found, mark isValid as false.
 Return the information in the specified format.
@@ -73,7 +79,14 @@ export class ProficyParser {
       
       // If AI parser found a valid address, return it
       if (parsedResult && parsedResult.isValid && this.isValidSolanaAddress(parsedResult.solanaAddress)) {
-        return parsedResult;
+        // Fill in authority flags the model left out from the text itself
+        const flags = this.parseAuthorityFlags(text);
+        return {
+          ...parsedResult,
+          renounced: parsedResult.renounced ?? flags.renounced,
+          mintEnabled: parsedResult.mintEnabled ?? flags.mintEnabled,
+          freezable: parsedResult.freezable ?? flags.freezable,
+        };
       }
       
       // If AI parsing failed or didn't find a valid address, try regex fallback
@@ -156,7 +169,8 @@ export class ProficyParser {
         volume24h,
         holders,
         solanaAddress,
-        isValid
+        isValid,
+        ...this.parseAuthorityFlags(text)
       };
     } catch (error) {
       console.error("Error in fallback parser:", error);
@@ -164,6 +178,23 @@ export class ProficyParser {
     }
   }
   
+  // Parse the "Renounced, Mint (off/on), Freezable (off/on)" line
+  private parseAuthorityFlags(text: string): {
+    renounced: boolean | null;
+    mintEnabled: boolean | null;
+    freezable: boolean | null;
+  } {
+    const renouncedMatch = text.match(/\b(not\s+|un)?renounced\b/i);
+    const mintMatch = text.match(/\bMint:?\s*(off|on)\b/i);
+    const freezeMatch = text.match(/\bFreez(?:able|e):?\s*(off|on)\b/i);
+
+    return {
+      renounced: renouncedMatch ? !renouncedMatch[1] : null,
+      mintEnabled: mintMatch ? mintMatch[1].toLowerCase() === "on" : null,
+      freezable: freezeMatch ? freezeMatch[1].toLowerCase() === "on" : null,
+    };
+  }
+  
   private parseMetric(value: string, unit: string): number {
     const baseValue = parseFloat(value);
     switch (unit.toUpperCase()) {
@@ -81,6 +81,9 @@ export class ProficyService {
         volume24h: parsedInfo.volume24h,
         marketCap: parsedInfo.marketCap,
         holders: parsedInfo.holders,
+        renounced: parsedInfo.renounced ?? null,
+        mintEnabled: parsedInfo.mintEnabled ?? null,
+        freezable: parsedInfo.freezable ?? null,
         isValid: true,
       };
     } catch (error) {
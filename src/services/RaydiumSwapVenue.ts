@@ -0,0 +1,231 @@
+// src/services/RaydiumSwapVenue.ts
+import { Connection, PublicKey } from "@solana/web3.js";
+import {
+  QuoteParams,
+  SolanaWalletClient,
+  SwapResponse,
+  SwapSimulation,
+  SwapUrgency,
+  SwapVenue,
+} from "../types/trade";
+import {
+  getPriceImpactPercentage,
+  JupiterService,
+  SwapTransactionBuilder,
+} from "./JupiterService";
+import { ESTIMATED_SWAP_COMPUTE_UNITS } from "./PriorityFeeService";
+
+// Raydium Trade API: routes over Raydium AMM, CPMM and CLMM pools only
+const RAYDIUM_SWAP_API = "https://transaction-v1.raydium.io";
+// Raydium's own compute unit price estimates, used without a PriorityFeeService
+const RAYDIUM_FEE_API = "https://api-v3.raydium.io/main/auto-fee";
+
+/**
+ * Swap venue that quotes and swaps directly against Raydium pools
+ *
+ * A second route next to Jupiter: tokens that just migrated to Raydium are
+ * often quoted here before Jupiter indexes their pool. Quotes are normalized
+ * to Jupiter's shape (inAmount, outAmount, priceImpactPct as a fraction) so
+ * the rest of the bot can compare and size them the same way. The built
+ * transactions are sent through JupiterService, so Raydium swaps get the same
+ * fee budget, pre-flight simulation, retries and on-chain confirmation.
+ */
+export class RaydiumSwapVenue implements SwapVenue {
+  readonly name = "raydium";
+
+  private readonly WRAPPED_SOL = "So11111111111111111111111111111111111111112";
+
+  private connection: Connection | null = null;
+
+  // Parameters each quote was requested with, to quote the swap again
+  private quoteParams: WeakMap<object, QuoteParams> = new WeakMap();
+
+  constructor(private jupiterService: JupiterService) {}
+
+  // Raydium only routes within its own pools, so onlyDirectRoutes has no effect
+  async getQuote(params: QuoteParams): Promise<any> {
+    const queryParams = new URLSearchParams({
+      inputMint: params.inputMint,
+      outputMint: params.outputMint,
+      amount: params.amount.toString(),
+      slippageBps: (params.slippageBps ?? 1000).toString(),
+      txVersion: "V0",
+    });
+
+    const response = await this.fetchJson(
+      `${RAYDIUM_SWAP_API}/compute/swap-base-in?${queryParams}`
+    );
+    if (!response?.success || !response.data) return null;
+
+    const { data } = response;
+    const quote = {
+      inputMint: data.inputMint,
+      outputMint: data.outputMint,
+      inAmount: data.inputAmount,
+      outAmount: data.outputAmount,
+      otherAmountThreshold: data.otherAmountThreshold,
+      swapMode: "ExactIn",
+      slippageBps: data.slippageBps,
+      // Raydium reports price impact in percent
+      priceImpactPct: (Number(data.priceImpactPct) || 0) / 100,
+      routePlan: data.routePlan || [],
+      // The swap transaction is built from Raydium's unmodified response
+      raydiumSwapResponse: response,
+    };
+
+    if (params.maxPriceImpactPct !== undefined) {
+      const priceImpact = getPriceImpactPercentage(quote);
+      if (priceImpact > params.maxPriceImpactPct) {
+        console.warn(
+          `❌ Raydium quote refused for ${params.inputMint} -> ${
+            params.outputMint
+          }: price impact ${priceImpact.toFixed(2)}% exceeds cap of ${
+            params.maxPriceImpactPct
+          }%`
+        );
+        return null;
+      }
+    }
+
+    this.quoteParams.set(quote, params);
+    return quote;
+  }
+
+  async executeSwap(
+    quote: any,
+    walletClient: SolanaWalletClient,
+    urgency: SwapUrgency = "medium"
+  ): Promise<SwapResponse | null> {
+    return this.jupiterService.sendSwap(
+      quote,
+      walletClient,
+      this.transactionBuilder(walletClient.getAddress()),
+      (staleQuote) => this.requote(staleQuote),
+      urgency
+    );
+  }
+
+  async simulateSwap(
+    quote: any,
+    walletClient: SolanaWalletClient
+  ): Promise<SwapSimulation> {
+    return this.jupiterService.simulateSwapTransaction(
+      quote,
+      this.transactionBuilder(walletClient.getAddress())
+    );
+  }
+
+  // Quote a swap again with the parameters of its original quote
+  private async requote(quote: any): Promise<any> {
+    const params = this.quoteParams.get(quote);
+    return params ? this.getQuote(params) : null;
+  }
+
+  // Build swap transactions for quotes through the Raydium Trade API
+  private transactionBuilder(walletAddress: string): SwapTransactionBuilder {
+    return async (quote, priorityFee) => {
+      const isBuy = quote.inputMint === this.WRAPPED_SOL;
+      const isSell = quote.outputMint === this.WRAPPED_SOL;
+
+      // Sells spend from an existing token account, Raydium needs its address
+      const inputAccount = isBuy
+        ? undefined
+        : await this.getTokenAccount(walletAddress, quote.inputMint);
+      if (!isBuy && !inputAccount) {
+        console.error(`No token account for ${quote.inputMint} to sell from`);
+        return null;
+      }
+
+      // Raydium takes a unit price, derived from the capped total fee
+      const computeUnitPrice = priorityFee
+        ? Math.floor(
+            (priorityFee.lamports * 1_000_000) / ESTIMATED_SWAP_COMPUTE_UNITS
+          )
+        : await this.getAutoComputeUnitPrice();
+
+      const response = await this.fetchJson(
+        `${RAYDIUM_SWAP_API}/transaction/swap-base-in`,
+        {
+          method: "POST",
+          body: JSON.stringify({
+            computeUnitPriceMicroLamports: String(computeUnitPrice),
+            swapResponse: quote.raydiumSwapResponse,
+            txVersion: "V0",
+            wallet: walletAddress,
+            wrapSol: isBuy,
+            unwrapSol: isSell,
+            inputAccount,
+          }),
+        }
+      );
+
+      // A swap split over several transactions can't be sent atomically
+      const transactions: { transaction: string }[] = response?.data || [];
+      if (transactions.length !== 1) {
+        console.error(
+          `Raydium returned ${transactions.length} transactions for the swap, expected 1`
+        );
+        return null;
+      }
+      return transactions[0].transaction;
+    };
+  }
+
+  // The wallet's largest token account for a mint, of either token program
+  private async getTokenAccount(
+    walletAddress: string,
+    mint: string
+  ): Promise<string | undefined> {
+    const { value } = await this.getConnection().getParsedTokenAccountsByOwner(
+      new PublicKey(walletAddress),
+      { mint: new PublicKey(mint) }
+    );
+
+    let largest: { address: string; amount: bigint } | undefined;
+    for (const { pubkey, account } of value) {
+      const amount = BigInt(
+        account.data.parsed?.info?.tokenAmount?.amount || 0
+      );
+      if (!largest || amount > largest.amount) {
+        largest = { address: pubkey.toBase58(), amount };
+      }
+    }
+    return largest?.address;
+  }
+
+  // Raydium's medium compute unit price estimate, in micro-lamports
+  private async getAutoComputeUnitPrice(): Promise<number> {
+    try {
+      const response = await this.fetchJson(RAYDIUM_FEE_API);
+      return Number(response?.data?.default?.m) || 0;
+    } catch (error) {
+      console.warn("Could not get Raydium priority fee estimate:", error);
+      return 0;
+    }
+  }
+
+  private async fetchJson(url: string, options: RequestInit = {}) {
+    const response = await fetch(url, {
+      ...options,
+      headers: { "Content-Type": "application/json", ...options.headers },
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  private getConnection(): Connection {
+    if (!this.connection) {
+      this.connection = new Connection(
+        process.env.SOLANA_RPC_URL || "https://api.mainnet-beta.solana.com",
+        "confirmed"
+      );
+    }
+    return this.connection;
+  }
+}
+
+export const createRaydiumSwapVenue = (jupiterService: JupiterService) => {
+  return new RaydiumSwapVenue(jupiterService);
+};
@@ -0,0 +1,343 @@
+// src/services/RiskEngine.ts
+import Database from "better-sqlite3";
+
+// Portfolio-wide limits, all read from the environment
+export interface RiskLimits {
+  maxOpenPositions: number;
+  // Total SOL deployed across active positions
+  maxDeployedSol: number;
+  // SOL deployed into a single token, scale-in tranches included
+  maxTokenAllocationSol: number;
+  // Realized loss since the start of the UTC day, in SOL
+  maxDailyLossSol: number;
+}
+
+// Current exposure against the limits
+export interface RiskState {
+  limits: RiskLimits;
+  openPositions: number;
+  deployedSol: number;
+  // Held back for pending limit entries, counted against the deployed limit
+  reservedSol: number;
+  // Realized P&L since the start of the UTC day, of the exits that were priced
+  realizedPnlTodayUsd: number;
+  // SOL received by the day's exits against the SOL their tokens cost, null
+  // if an exit can't be matched to its position's cost
+  realizedPnlTodaySol: number | null;
+  // True while a portfolio limit is breached, new buys are blocked
+  buyingPaused: boolean;
+  // Why buying is paused
+  breaches: string[];
+}
+
+// Outcome of a pre-buy risk check
+export interface RiskCheckResult {
+  allowed: boolean;
+  // Size to buy, shrunk to stay within the deployed and per-token limits
+  lamports: number;
+  reason: string | null;
+}
+
+const DEFAULT_RISK_LIMITS: RiskLimits = {
+  maxOpenPositions: 10,
+  maxDeployedSol: 5,
+  maxTokenAllocationSol: 1,
+  maxDailyLossSol: 1,
+};
+
+// Buys shrunk below this many lamports are skipped instead
+const MIN_BUY_LAMPORTS = 1_000_000;
+
+/**
+ * Read the risk limits from the environment
+ *
+ * MAX_OPEN_POSITIONS, MAX_DEPLOYED_SOL, MAX_TOKEN_ALLOCATION_SOL and
+ * MAX_DAILY_LOSS_SOL. A value of 0 disables that limit.
+ */
+export const getRiskLimits = (): RiskLimits => {
+  const read = (name: string, fallback: number) => {
+    const value = process.env[name];
+    if (value === undefined || value === "") return fallback;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+  };
+
+  return {
+    maxOpenPositions: read(
+      "MAX_OPEN_POSITIONS",
+      DEFAULT_RISK_LIMITS.maxOpenPositions
+    ),
+    maxDeployedSol: read(
+      "MAX_DEPLOYED_SOL",
+      DEFAULT_RISK_LIMITS.maxDeployedSol
+    ),
+    maxTokenAllocationSol: read(
+      "MAX_TOKEN_ALLOCATION_SOL",
+      DEFAULT_RISK_LIMITS.maxTokenAllocationSol
+    ),
+    maxDailyLossSol: read(
+      "MAX_DAILY_LOSS_SOL",
+      DEFAULT_RISK_LIMITS.maxDailyLossSol
+    ),
+  };
+};
+
+/**
+ * Portfolio-level risk engine, consulted before every buy
+ *
+ * Position sizing only looks at one signal at a time. The engine caps the
+ * portfolio as a whole: buying pauses while the number of open positions,
+ * the SOL deployed or today's realized loss is at its limit, and each buy is
+ * shrunk to fit what is left of the deployed and per-token allocation.
+ */
+export class RiskEngine {
+  constructor(private db: Database.Database) {}
+
+  /**
+   * Get the current exposure and whether buying is paused
+   *
+   * @param paper - Paper and live trading are separate books, each with its
+   * own limits
+   * @param excludeOrderId - Pending order whose reservation isn't counted
+   */
+  async getRiskState(
+    paper: boolean = false,
+    excludeOrderId?: string
+  ): Promise<RiskState> {
+    const limits = getRiskLimits();
+
+    const exposure = this.db
+      .prepare(
+        `
+        SELECT
+          COUNT(*) as openPositions,
+          COALESCE(SUM(COALESCE(deployed_size, planned_size, 0)), 0) as deployed
+        FROM positions
+        WHERE status = 'ACTIVE' AND COALESCE(paper, 0) = ?
+      `
+      )
+      .get(paper ? 1 : 0) as { openPositions: number; deployed: number };
+    const deployedSol = Number(exposure.deployed) / 1e9;
+    const reservedSol = this.getReservedLamports(paper, excludeOrderId) / 1e9;
+
+    const realizedPnlTodayUsd = this.getRealizedPnlToday(paper);
+    const realizedPnlTodaySol = this.getRealizedSolToday(paper);
+
+    const breaches: string[] = [];
+    if (
+      limits.maxOpenPositions > 0 &&
+      exposure.openPositions >= limits.maxOpenPositions
+    ) {
+      breaches.push(
+        `${exposure.openPositions} open positions (max ${limits.maxOpenPositions})`
+      );
+    }
+    if (
+      limits.maxDeployedSol > 0 &&
+      deployedSol + reservedSol >= limits.maxDeployedSol
+    ) {
+      breaches.push(
+        `${deployedSol.toFixed(3)} SOL deployed and ${reservedSol.toFixed(
+          3
+        )} SOL reserved (max ${limits.maxDeployedSol})`
+      );
+    }
+    // The loss limit can't be checked, so it doesn't let buys through either
+    if (limits.maxDailyLossSol > 0 && realizedPnlTodaySol === null) {
+      console.warn(
+        "🧯 Today's realized loss can't be computed, blocking buys until it can"
+      );
+      breaches.push("today's realized loss can't be computed");
+    }
+    if (
+      limits.maxDailyLossSol > 0 &&
+      realizedPnlTodaySol !== null &&
+      -realizedPnlTodaySol >= limits.maxDailyLossSol
+    ) {
+      breaches.push(
+        `${(-realizedPnlTodaySol).toFixed(3)} SOL realized loss today (max ${
+          limits.maxDailyLossSol
+        })`
+      );
+    }
+
+    return {
+      limits,
+      openPositions: exposure.openPositions,
+      deployedSol,
+      reservedSol,
+      realizedPnlTodayUsd,
+      realizedPnlTodaySol,
+      buyingPaused: breaches.length > 0,
+      breaches,
+    };
+  }
+
+  /**
+   * Check a buy against the portfolio limits
+   *
+   * @param tokenAddress - The token to buy
+   * @param lamports - Intended size of the buy
+   * @param paper - Whether the buy is a paper trade
+   * @param excludeOrderId - Pending order being filled by this buy
+   * @returns Whether to buy, and the size after applying the limits
+   */
+  async checkBuy(
+    tokenAddress: string,
+    lamports: number,
+    paper: boolean = false,
+    excludeOrderId?: string
+  ): Promise<RiskCheckResult> {
+    const state = await this.getRiskState(paper, excludeOrderId);
+    if (state.buyingPaused) {
+      return this.block(`buying paused: ${state.breaches.join(", ")}`);
+    }
+
+    let size = lamports;
+    const { limits } = state;
+
+    if (limits.maxDeployedSol > 0) {
+      const headroom = Math.floor(
+        (limits.maxDeployedSol - state.deployedSol - state.reservedSol) * 1e9
+      );
+      size = Math.min(size, headroom);
+    }
+
+    if (limits.maxTokenAllocationSol > 0) {
+      const allocated = this.db
+        .prepare(
+          `
+          SELECT COALESCE(SUM(COALESCE(deployed_size, planned_size, 0)), 0) as deployed
+          FROM positions
+          WHERE token_address = ? AND status = 'ACTIVE' AND COALESCE(paper, 0) = ?
+        `
+        )
+        .get(tokenAddress, paper ? 1 : 0) as { deployed: number };
+      const headroom = Math.floor(
+        limits.maxTokenAllocationSol * 1e9 -
+          Number(allocated.deployed) -
+          this.getReservedLamports(paper, excludeOrderId, tokenAddress)
+      );
+      size = Math.min(size, headroom);
+    }
+
+    if (size < MIN_BUY_LAMPORTS) {
+      return this.block(
+        `no allocation left for ${tokenAddress} within the deployed SOL limits`
+      );
+    }
+    if (size < lamports) {
+      console.log(
+        `🧯 Shrinking buy of ${tokenAddress} from ${lamports} to ${size} lamports to stay within risk limits`
+      );
+    }
+    return { allowed: true, lamports: size, reason: null };
+  }
+
+  // Lamports of pending limit entries, optionally only those for one token
+  private getReservedLamports(
+    paper: boolean,
+    excludeOrderId?: string,
+    tokenAddress?: string
+  ): number {
+    const result = this.db
+      .prepare(
+        `
+        SELECT COALESCE(SUM(size), 0) as reserved
+        FROM pending_orders
+        WHERE status = 'PENDING'
+          AND COALESCE(paper, 0) = ?
+          AND id != ?
+          AND (? IS NULL OR token_address = ?)
+      `
+      )
+      .get(
+        paper ? 1 : 0,
+        excludeOrderId || "",
+        tokenAddress || null,
+        tokenAddress || null
+      ) as { reserved: number };
+    return Number(result.reserved) || 0;
+  }
+
+  // Sum of realized P&L (USD) of exits since the start of the UTC day
+  private getRealizedPnlToday(paper: boolean): number {
+    const startOfDay = new Date();
+    startOfDay.setUTCHours(0, 0, 0, 0);
+
+    const result = this.db
+      .prepare(
+        `
+        SELECT COALESCE(SUM(profit_loss), 0) as total
+        FROM trades
+        WHERE exit_time >= ? AND COALESCE(paper, 0) = ?
+      `
+      )
+      .get(Math.floor(startOfDay.getTime() / 1000), paper ? 1 : 0) as {
+      total: number;
+    };
+    return Number(result.total) || 0;
+  }
+
+  /**
+   * Realized result of the exits since the start of the UTC day, in SOL
+   *
+   * Each exit's SOL received is set against what its tokens cost, at the
+   * position's SOL spent per token bought. Needs no price, so exits of
+   * tokens nobody could price still count.
+   *
+   * @returns The result in SOL, null if an exit has no SOL amount or can't
+   * be matched to its position's cost
+   */
+  private getRealizedSolToday(paper: boolean): number | null {
+    const startOfDay = new Date();
+    startOfDay.setUTCHours(0, 0, 0, 0);
+
+    const exits = this.db
+      .prepare(
+        `
+        SELECT
+          trades.sol_amount as solAmount,
+          trades.token_amount as tokenAmount,
+          COALESCE(positions.deployed_size, positions.planned_size) as cost,
+          COALESCE(positions.initial_amount, positions.amount) as bought
+        FROM trades
+        LEFT JOIN trade_exits ON trade_exits.trade_id = trades.id
+        LEFT JOIN positions ON positions.id = trade_exits.position_id
+        WHERE trades.status = 'CLOSED'
+          AND trades.exit_time >= ?
+          AND COALESCE(trades.paper, 0) = ?
+      `
+      )
+      .all(Math.floor(startOfDay.getTime() / 1000), paper ? 1 : 0) as {
+      solAmount: number | null;
+      tokenAmount: number | null;
+      cost: number | null;
+      bought: number | null;
+    }[];
+
+    let lamports = 0;
+    for (const exit of exits) {
+      if (
+        exit.solAmount === null ||
+        exit.tokenAmount === null ||
+        exit.cost === null ||
+        !exit.bought
+      ) {
+        return null;
+      }
+      lamports +=
+        Number(exit.solAmount) -
+        (Number(exit.tokenAmount) * Number(exit.cost)) / Number(exit.bought);
+    }
+    return lamports / 1e9;
+  }
+
+  private block(reason: string): RiskCheckResult {
+    return { allowed: false, lamports: 0, reason };
+  }
+}
+
+export const createRiskEngine = (db: Database.Database) => {
+  return new RiskEngine(db);
+};
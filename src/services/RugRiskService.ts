@@ -0,0 +1,332 @@
+// src/services/RugRiskService.ts
+import Database from "better-sqlite3";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { TokenInfo } from "../types/trade";
+import { getMintInfo } from "../utils/token-balance";
+
+// Rug score of a token and what contributed to it
+export interface RugRiskAssessment {
+  tokenAddress: string;
+  // 0 (no red flags) to 100 (almost certainly a rug)
+  score: number;
+  // Human readable red flags behind the score
+  factors: string[];
+  // Share of supply held by the 10 largest wallets, pools excluded
+  topHolderPercentage: number | null;
+  // Share of the Raydium LP supply that was burned, null if unknown
+  lpBurnedPercentage: number | null;
+}
+
+// Score contributions of each red flag
+const RISK_WEIGHTS = {
+  mintAuthority: 30,
+  freezeAuthority: 25,
+  notRenounced: 10,
+  highConcentration: 20,
+  moderateConcentration: 10,
+  lpNotBurned: 20,
+  lpUnknown: 10,
+  fewHolders: 10,
+};
+
+// Top-10 holder share (percent) above which concentration is a red flag
+const HIGH_CONCENTRATION_PERCENTAGE = 50;
+const MODERATE_CONCENTRATION_PERCENTAGE = 30;
+// LP counts as burned once this share of it is gone
+const LP_BURNED_PERCENTAGE = 90;
+// Tokens with fewer holders than this (as reported by Proficy) are riskier
+const MIN_HOLDERS = 100;
+// Default score from which BUY signals are rejected
+const DEFAULT_MAX_RUG_SCORE = 60;
+
+/**
+ * Rug-risk scoring from holder and authority data
+ *
+ * Combines the authority flags and holder count reported by ProficyPriceBot
+ * with on-chain checks: mint and freeze authority, top-holder concentration
+ * (wallets only, pool and bonding curve accounts are owned by program
+ * addresses and skipped) and whether the Raydium LP was burned. The score is
+ * stored on the tokens table so trade sizing can use it later.
+ */
+export class RugRiskService {
+  private readonly RAYDIUM_AMM_V4_PROGRAM =
+    "675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8";
+  private readonly PUMP_FUN_PROGRAM = new PublicKey(
+    "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P"
+  );
+  private readonly PAIRS_API = "https://api.dexscreener.com/latest/dex/tokens";
+
+  private connection: Connection | null = null;
+
+  constructor(private db: Database.Database) {}
+
+  /**
+   * Score a token's rug risk and store the score on the tokens table
+   *
+   * @param tokenAddress - The token mint
+   * @param reported - Token info from Proficy, for its authority flags and holder count
+   * @returns The assessment
+   */
+  async assessToken(
+    tokenAddress: string,
+    reported?: Partial<TokenInfo> | null
+  ): Promise<RugRiskAssessment> {
+    const factors: string[] = [];
+    let score = 0;
+    const flag = (weight: number, factor: string) => {
+      score += weight;
+      factors.push(factor);
+    };
+
+    const mintInfo = await getMintInfo(tokenAddress, this.getConnection());
+
+    // On-chain authorities win over what Proficy reported
+    const mintEnabled = mintInfo
+      ? mintInfo.mintAuthority !== null
+      : reported?.mintEnabled;
+    const freezable = mintInfo
+      ? mintInfo.freezeAuthority !== null
+      : reported?.freezable;
+    if (mintEnabled) flag(RISK_WEIGHTS.mintAuthority, "mint authority enabled");
+    if (freezable) {
+      flag(RISK_WEIGHTS.freezeAuthority, "freeze authority enabled");
+    }
+    if (reported?.renounced === false) {
+      flag(RISK_WEIGHTS.notRenounced, "ownership not renounced");
+    }
+
+    if (reported?.holders && reported.holders < MIN_HOLDERS) {
+      flag(RISK_WEIGHTS.fewHolders, `only ${reported.holders} holders`);
+    }
+
+    const topHolderPercentage = await this.getTopHolderPercentage(tokenAddress);
+    if (topHolderPercentage !== null) {
+      if (topHolderPercentage > HIGH_CONCENTRATION_PERCENTAGE) {
+        flag(
+          RISK_WEIGHTS.highConcentration,
+          `top 10 wallets hold ${topHolderPercentage.toFixed(1)}%`
+        );
+      } else if (topHolderPercentage > MODERATE_CONCENTRATION_PERCENTAGE) {
+        flag(
+          RISK_WEIGHTS.moderateConcentration,
+          `top 10 wallets hold ${topHolderPercentage.toFixed(1)}%`
+        );
+      }
+    }
+
+    let lpBurnedPercentage: number | null = null;
+    if (!(await this.isOnBondingCurve(tokenAddress))) {
+      lpBurnedPercentage = await this.getLpBurnedPercentage(tokenAddress);
+      if (lpBurnedPercentage === null) {
+        flag(RISK_WEIGHTS.lpUnknown, "LP burn status unknown");
+      } else if (lpBurnedPercentage < LP_BURNED_PERCENTAGE) {
+        flag(
+          Math.round(
+            (RISK_WEIGHTS.lpNotBurned * (100 - lpBurnedPercentage)) / 100
+          ),
+          `only ${lpBurnedPercentage.toFixed(1)}% of LP burned`
+        );
+      }
+    }
+
+    const assessment: RugRiskAssessment = {
+      tokenAddress,
+      score: Math.min(100, score),
+      factors,
+      topHolderPercentage,
+      lpBurnedPercentage,
+    };
+    this.storeAssessment(assessment, reported, mintInfo?.decimals);
+
+    console.log(
+      `🧨 Rug score for ${tokenAddress}: ${assessment.score}/100`,
+      factors.length > 0 ? `(${factors.join(", ")})` : ""
+    );
+    return assessment;
+  }
+
+  /**
+   * Get the last stored rug score of a token
+   *
+   * @param tokenAddress - The token mint
+   * @returns The score, or null if the token was never scored
+   */
+  getStoredScore(tokenAddress: string): number | null {
+    return getStoredRugScore(this.db, tokenAddress);
+  }
+
+  /**
+   * Score from which BUY signals are rejected (MAX_RUG_SCORE, default 60)
+   */
+  getMaxScore(): number {
+    return Number(process.env.MAX_RUG_SCORE) || DEFAULT_MAX_RUG_SCORE;
+  }
+
+  private storeAssessment(
+    assessment: RugRiskAssessment,
+    reported: Partial<TokenInfo> | null | undefined,
+    decimals: number | undefined
+  ) {
+    try {
+      this.db
+        .prepare(
+          `
+          INSERT INTO tokens (
+            address, symbol, name, decimals, rug_score, rug_factors, rug_checked_at
+          ) VALUES (?, ?, ?, ?, ?, ?, unixepoch())
+          ON CONFLICT(address) DO UPDATE SET
+            rug_score = excluded.rug_score,
+            rug_factors = excluded.rug_factors,
+            rug_checked_at = excluded.rug_checked_at
+        `
+        )
+        .run(
+          assessment.tokenAddress,
+          reported?.symbol || null,
+          reported?.name || null,
+          decimals ?? 9,
+          assessment.score,
+          JSON.stringify(assessment.factors)
+        );
+    } catch (error) {
+      console.error(
+        `Error storing rug score for ${assessment.tokenAddress}:`,
+        error
+      );
+    }
+  }
+
+  // Share of supply held by the 10 largest wallet-owned token accounts
+  private async getTopHolderPercentage(
+    tokenAddress: string
+  ): Promise<number | null> {
+    try {
+      const connection = this.getConnection();
+      const mint = new PublicKey(tokenAddress);
+      const [largest, supply] = await Promise.all([
+        connection.getTokenLargestAccounts(mint),
+        connection.getTokenSupply(mint),
+      ]);
+      const totalSupply = Number(supply.value.amount);
+      if (!(totalSupply > 0)) return null;
+
+      const accounts = await connection.getMultipleParsedAccounts(
+        largest.value.map((account) => account.address)
+      );
+
+      // Pools, bonding curves and lockers hold tokens through program
+      // derived addresses, which are off the ed25519 curve
+      let held = 0;
+      let wallets = 0;
+      for (let i = 0; i < largest.value.length && wallets < 10; i++) {
+        const data = accounts.value[i]?.data;
+        const owner =
+          data && !Buffer.isBuffer(data) ? data.parsed?.info?.owner : null;
+        if (!owner || !PublicKey.isOnCurve(new PublicKey(owner).toBytes())) {
+          continue;
+        }
+        held += Number(largest.value[i].amount);
+        wallets++;
+      }
+
+      return (held / totalSupply) * 100;
+    } catch (error) {
+      console.error(`Error reading top holders of ${tokenAddress}:`, error);
+      return null;
+    }
+  }
+
+  // pump.fun tokens still on their bonding curve have no LP that can be pulled
+  private async isOnBondingCurve(tokenAddress: string): Promise<boolean> {
+    try {
+      const [bondingCurve] = PublicKey.findProgramAddressSync(
+        [Buffer.from("bonding-curve"), new PublicKey(tokenAddress).toBuffer()],
+        this.PUMP_FUN_PROGRAM
+      );
+      const account = await this.getConnection().getAccountInfo(bondingCurve);
+      // Byte 48 is the completed flag, set once the token migrated to an AMM
+      return !!account && account.data.length >= 49 && account.data[48] === 0;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Share of the LP of the token's most liquid Raydium AMM v4 pool that was
+  // burned, null if the token has no such pool
+  private async getLpBurnedPercentage(
+    tokenAddress: string
+  ): Promise<number | null> {
+    try {
+      const response = await fetch(`${this.PAIRS_API}/${tokenAddress}`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const data = await response.json();
+      const pools = (data?.pairs || [])
+        .filter(
+          (pair: any) => pair.chainId === "solana" && pair.dexId === "raydium"
+        )
+        .sort(
+          (a: any, b: any) => (b.liquidity?.usd || 0) - (a.liquidity?.usd || 0)
+        );
+      if (pools.length === 0) return null;
+
+      const connection = this.getConnection();
+      const pool = await connection.getAccountInfo(
+        new PublicKey(pools[0].pairAddress)
+      );
+      if (
+        !pool ||
+        pool.owner.toBase58() !== this.RAYDIUM_AMM_V4_PROGRAM ||
+        pool.data.length !== 752
+      ) {
+        return null;
+      }
+
+      // AMM v4 layout: LP mint at offset 464, LP reserve (LP tokens issued
+      // and not withdrawn) at 720. Burned LP is gone from the mint supply
+      // but still counted in the reserve
+      const lpMint = new PublicKey(pool.data.subarray(464, 496));
+      const lpReserve = Number(pool.data.readBigUInt64LE(720));
+      if (!(lpReserve > 0)) return null;
+
+      const lpSupply = await connection.getTokenSupply(lpMint);
+      const burned = (1 - Number(lpSupply.value.amount) / lpReserve) * 100;
+      return Math.max(0, Math.min(100, burned));
+    } catch (error) {
+      console.error(`Error reading LP status of ${tokenAddress}:`, error);
+      return null;
+    }
+  }
+
+  private getConnection(): Connection {
+    if (!this.connection) {
+      this.connection = new Connection(
+        process.env.SOLANA_RPC_URL || "https://api.mainnet-beta.solana.com",
+        "confirmed"
+      );
+    }
+    return this.connection;
+  }
+}
+
+/**
+ * Read a token's stored rug score from the tokens table
+ *
+ * @param db - Database with the tokens table
+ * @param tokenAddress - The token mint
+ * @returns The score, or null if the token was never scored
+ */
+export const getStoredRugScore = (
+  db: Database.Database,
+  tokenAddress: string
+): number | null => {
+  const row = db
+    .prepare(`SELECT rug_score FROM tokens WHERE address = ?`)
+    .get(tokenAddress) as { rug_score: number | null } | undefined;
+  return row?.rug_score ?? null;
+};
+
+export const createRugRiskService = (db: Database.Database) => {
+  return new RugRiskService(db);
+};
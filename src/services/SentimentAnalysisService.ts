@@ -12,6 +12,8 @@ export const EnhancedSignalSchema = z.object({
   buySignalStrength: z.number().min(0).max(100),
   urgencyLevel: z.enum(["low", "medium", "high"]).optional(),
   reasonForBuy: z.string().optional(),
+  stopLoss: z.number().optional(),
+  takeProfit: z.number().optional(),
 });
 
 export type SignalExtractionType = z.infer<typeof SignalSchema>;
@@ -35,6 +37,8 @@ export class SentimentAnalysisService {
   - buySignalStrength: 0-100 (strength of buy recommendation regardless of pump status)
   - urgencyLevel: "low", "medium", or "high" (how urgent the action is)
   - reasonForBuy: Brief explanation of why this should or shouldn't be bought
+  - stopLoss: Number (stop-loss price in USD if the message gives one, otherwise omit)
+  - takeProfit: Number (target price in USD if the message gives one, otherwise omit)
 
   Important BUY patterns to detect:
   1. New listings or launches (high urgency, strong buy if caught early)
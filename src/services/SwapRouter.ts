@@ -0,0 +1,157 @@
+// src/services/SwapRouter.ts
+import {
+  QuoteParams,
+  SolanaWalletClient,
+  SwapResponse,
+  SwapSimulation,
+  SwapUrgency,
+  SwapVenue,
+} from "../types/trade";
+import { JupiterService } from "./JupiterService";
+import { createMockSwapVenue } from "./MockSwapVenue";
+import { createRaydiumSwapVenue } from "./RaydiumSwapVenue";
+
+/**
+ * Swap venue that quotes every configured venue and routes to the best one
+ *
+ * The best quote is the one with the largest output amount. Each quote is
+ * remembered with the venue that produced it, so executeSwap sends it back to
+ * that venue.
+ */
+export class SwapRouter implements SwapVenue {
+  readonly name = "router";
+
+  // Venue that produced each quote handed out by getQuote
+  private quoteVenues: WeakMap<object, SwapVenue> = new WeakMap();
+
+  // Offline venues only ever route among themselves, see createConfiguredSwapRouter
+  readonly offline: boolean;
+
+  // An offline router is priced and funded by its first venue
+  readonly getPrice?: SwapVenue["getPrice"];
+  readonly getBalance?: SwapVenue["getBalance"];
+
+  constructor(private venues: SwapVenue[]) {
+    if (venues.length === 0) {
+      throw new Error("SwapRouter requires at least one swap venue");
+    }
+    this.offline = venues.every((venue) => venue.offline);
+    if (this.offline) {
+      const [venue] = venues;
+      this.getPrice = venue.getPrice?.bind(venue);
+      this.getBalance = venue.getBalance?.bind(venue);
+    }
+  }
+
+  getVenueNames(): string[] {
+    return this.venues.map((venue) => venue.name);
+  }
+
+  async getQuote(params: QuoteParams): Promise<any> {
+    const results = await Promise.allSettled(
+      this.venues.map((venue) => venue.getQuote(params))
+    );
+
+    let best: { venue: SwapVenue; quote: any } | null = null;
+    for (let i = 0; i < results.length; i++) {
+      const venue = this.venues[i];
+      const result = results[i];
+      if (result.status === "rejected") {
+        console.error(`Error getting quote from ${venue.name}:`, result.reason);
+        continue;
+      }
+      if (!result.value) continue;
+      if (
+        !best ||
+        Number(result.value.outAmount) > Number(best.quote.outAmount)
+      ) {
+        best = { venue, quote: result.value };
+      }
+    }
+
+    if (!best) return null;
+    const { venue, quote } = best;
+
+    if (this.venues.length > 1) {
+      console.log(
+        `🔀 Best quote for ${params.inputMint} -> ${params.outputMint} from ${venue.name}: ${quote.outAmount}`
+      );
+    }
+
+    this.quoteVenues.set(quote, venue);
+    return quote;
+  }
+
+  async executeSwap(
+    quote: any,
+    walletClient: SolanaWalletClient,
+    urgency?: SwapUrgency
+  ): Promise<SwapResponse | null> {
+    const venue = this.quoteVenues.get(quote);
+    if (!venue) {
+      console.error("Quote was not produced by this router, not executing");
+      return null;
+    }
+    return venue.executeSwap(quote, walletClient, urgency);
+  }
+
+  async simulateSwap(
+    quote: any,
+    walletClient: SolanaWalletClient
+  ): Promise<SwapSimulation> {
+    const venue = this.quoteVenues.get(quote);
+    if (!venue) {
+      return {
+        success: false,
+        error: "Quote was not produced by this router",
+      };
+    }
+    // Venues that can't simulate don't block the swap
+    if (!venue.simulateSwap) return { success: true };
+    return venue.simulateSwap(quote, walletClient);
+  }
+}
+
+export const createSwapRouter = (venues: SwapVenue[]) => {
+  return new SwapRouter(venues);
+};
+
+/**
+ * Build the router for the venues listed in SWAP_VENUES (default: "jupiter")
+ *
+ * The mock venue quotes a fixed rate that would win every comparison with a
+ * real venue and fills without sending anything, so it can only be used on
+ * its own.
+ *
+ * @param jupiterService - The Jupiter venue, also used for prices, token info
+ * and sending the transactions other venues build
+ * @returns A router over the configured venues
+ */
+export const createConfiguredSwapRouter = (jupiterService: JupiterService) => {
+  const names = (process.env.SWAP_VENUES || "jupiter")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (names.includes("mock") && names.some((name) => name !== "mock")) {
+    throw new Error(
+      `SWAP_VENUES="${process.env.SWAP_VENUES}": the mock venue can't be combined with real venues`
+    );
+  }
+
+  const venues: SwapVenue[] = [];
+  for (const name of names) {
+    if (name === "jupiter") {
+      venues.push(jupiterService);
+    } else if (name === "raydium") {
+      venues.push(createRaydiumSwapVenue(jupiterService));
+    } else if (name === "mock") {
+      console.warn("🧪 Mock swap venue enabled, swaps will not be sent");
+      venues.push(createMockSwapVenue());
+    } else {
+      console.warn(`Unknown swap venue "${name}" in SWAP_VENUES, ignoring`);
+    }
+  }
+
+  return createSwapRouter(venues.length > 0 ? venues : [jupiterService]);
+};
@@ -9,7 +9,15 @@ import { JupiterService } from "./JupiterService";
 import { TradeExecutionService } from "./TradeExecutionService";
 import { ProficyService } from "./ProficyService";
 import { SentimentAnalysisService } from "./SentimentAnalysisService";
+import { RugRiskService } from "./RugRiskService";
+import { TokenListService } from "./TokenListService";
 import { randomUUID } from "../utils/uuid";
+import {
+  canAddToPositions,
+  canExitAutomatically,
+  canOpenPositions,
+  getTradingMode,
+} from "../utils/trading-mode";
 
 export const SignalSchema = z.object({
   isTradeSignal: z.boolean(),
@@ -32,7 +40,12 @@ export interface EnhancedSignal {
   buySignalStrength?: number;
   urgencyLevel?: "low" | "medium" | "high";
   reasonForBuy?: string;
+  stopLoss?: number;
+  takeProfit?: number;
   tokenInfo?: any;
+  rugScore?: number;
+  // Channel the signal was posted in
+  source?: string;
 }
 
 // Interface for positions (used for sell detection)
@@ -76,6 +89,8 @@ export class TelegramMonitorService {
       tradeExecutionService: TradeExecutionService;
       proficyService: ProficyService;
       sentimentService: SentimentAnalysisService;
+      rugRiskService?: RugRiskService;
+      tokenListService?: TokenListService;
       channelIds?: string[];
     }
   ) {
@@ -256,8 +271,16 @@ export class TelegramMonitorService {
           return;
         }
 
+        // Nothing trades while halted, don't spend Proficy or model calls
+        if (getTradingMode(this.config.db) === "HALTED") return;
+
         try {
           const signal = await this.processMessage(message.text);
+          if (signal) {
+            signal.source = chat.username
+              ? `@${chat.username}`
+              : chat.id.toString();
+          }
           if (signal?.isTradeSignal) {
             console.log("🚨 Trading Signal Detected:", {
               token: signal.tokenAddress,
@@ -445,6 +468,8 @@ export class TelegramMonitorService {
         signal.buySignalStrength = enhancedSentiment.buySignalStrength;
         signal.urgencyLevel = enhancedSentiment.urgencyLevel;
         signal.reasonForBuy = enhancedSentiment.reasonForBuy;
+        signal.stopLoss = enhancedSentiment.stopLoss;
+        signal.takeProfit = enhancedSentiment.takeProfit;
 
         // SELL SIGNAL DETECTION LOGIC
         // If the AI detected this as a sell signal, respect that
@@ -533,8 +558,28 @@ export class TelegramMonitorService {
       // Capture rejection reason for better logging
       let rejectionReason = "";
 
+      const tradingMode = getTradingMode(this.config.db);
+
+      // Denied channels, mints and creators, and allowlist-only mode
+      if (this.config.tokenListService) {
+        const listCheck = await this.config.tokenListService.checkSignal(
+          signal.tokenAddress,
+          signal.source,
+          signal.type === "BUY"
+        );
+        if (!listCheck.allowed) {
+          console.log(`❌ Rejected: ${listCheck.reason}`);
+          return false;
+        }
+      }
+
       // For SELL signals, we only care if we have a position
       if (signal.type === "SELL") {
+        if (!canExitAutomatically(tradingMode)) {
+          console.log(`❌ Rejected: Trading mode is ${tradingMode}`);
+          return false;
+        }
+
         // Check if we have a position for this token
         const position = await this.checkForExistingPosition(
           signal.tokenAddress
@@ -558,6 +603,39 @@ export class TelegramMonitorService {
         return false;
       }
 
+      // Repeat mentions of a position that is still scaling in can add a tranche
+      const scalingInPosition = this.config.db
+        .prepare(
+          `
+          SELECT id FROM positions
+          WHERE token_address = ?
+          AND status = 'ACTIVE'
+          AND tranches_filled < tranches_planned
+      `
+        )
+        .get(signal.tokenAddress);
+
+      if (scalingInPosition) {
+        if (!canAddToPositions(tradingMode)) {
+          console.log(`❌ Rejected: Trading mode is ${tradingMode}`);
+          return false;
+        }
+        // The token may have turned since the first tranche
+        if (!(await this.passesRugCheck(signal))) {
+          return false;
+        }
+        console.log(
+          `✅ Accepting repeat ${signal.type} signal for scaling-in position in ${signal.tokenAddress}`
+        );
+        await this.storeSignal(signal);
+        return true;
+      }
+
+      if (!canOpenPositions(tradingMode)) {
+        console.log(`❌ Rejected: Trading mode is ${tradingMode}`);
+        return false;
+      }
+
       // Check for recent trades of the same token
       const recentTrade = this.config.db
         .prepare(
@@ -575,6 +653,10 @@ export class TelegramMonitorService {
         return false;
       }
 
+      if (!(await this.passesRugCheck(signal))) {
+        return false;
+      }
+
       // Log a simple acceptance message
       console.log(
         `✅ Accepting ${signal.type} signal for ${signal.tokenAddress}`
@@ -588,6 +670,26 @@ export class TelegramMonitorService {
     }
   }
 
+  // Score rug risk from Proficy's flags and on-chain holder data
+  private async passesRugCheck(signal: EnhancedSignal): Promise<boolean> {
+    if (!this.config.rugRiskService) return true;
+
+    const rugRisk = await this.config.rugRiskService.assessToken(
+      signal.tokenAddress,
+      signal.tokenInfo
+    );
+    signal.rugScore = rugRisk.score;
+
+    const maxRugScore = this.config.rugRiskService.getMaxScore();
+    if (rugRisk.score >= maxRugScore) {
+      console.log(
+        `❌ Rejected: Rug score ${rugRisk.score} (max ${maxRugScore}) - ${rugRisk.factors.join(", ")}`
+      );
+      return false;
+    }
+    return true;
+  }
+
   private async storeSignal(signal: EnhancedSignal) {
     try {
       // First, make sure the signals table has the new columns
@@ -683,6 +785,21 @@ export class TelegramMonitorService {
             )
             .run();
         }
+
+        // Check if rejection_reason column exists, add if not
+        const rejectionReasonCheck = this.config.db
+          .prepare(
+            "SELECT COUNT(*) as count FROM pragma_table_info('signals') WHERE name='rejection_reason'"
+          )
+          .get() as { count: number };
+
+        if (rejectionReasonCheck.count === 0) {
+          this.config.db
+            .prepare(
+              "ALTER TABLE signals ADD COLUMN rejection_reason TEXT DEFAULT NULL"
+            )
+            .run();
+        }
       } catch (error) {
         console.error("Error modifying table schema:", error);
         // Continue and try to insert anyway
@@ -699,6 +816,8 @@ export class TelegramMonitorService {
          timestamp,
          processed,
          confidence,
+         stop_loss,
+         take_profit,
          liquidity,
          volume_24h,
          is_update_message,
@@ -707,16 +826,18 @@ export class TelegramMonitorService {
          buy_signal_strength,
          urgency_level,
          reason_for_buy
-       ) VALUES (?, ?, ?, ?, ?, unixepoch(), 0, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ) VALUES (?, ?, ?, ?, ?, unixepoch(), 0, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
      `);
 
       stmt.run(
         signal.id,
-        "@DegenSeals",
+        signal.source || "@DegenSeals",
         signal.tokenAddress,
         signal.type,
         signal.price || 0,
         signal.confidence || 50,
+        signal.stopLoss || null,
+        signal.takeProfit || null,
         signal.liquidity || 0,
         signal.volume24h || 0,
         signal.isUpdateMessage ? 1 : 0,
@@ -795,6 +916,8 @@ export const createTelegramMonitorService = (config: {
   tradeExecutionService: TradeExecutionService;
   proficyService: ProficyService;
   sentimentService: SentimentAnalysisService;
+  rugRiskService?: RugRiskService;
+  tokenListService?: TokenListService;
   channelIds?: string[];
 }) => {
   return new TelegramMonitorService(config);
@@ -0,0 +1,334 @@
+// src/services/TokenListService.ts
+import Database from "better-sqlite3";
+import { Connection, PublicKey } from "@solana/web3.js";
+
+export type TokenListType =
+  | "ALLOW_MINT"
+  | "DENY_MINT"
+  | "DENY_CREATOR"
+  | "DENY_CHANNEL";
+
+export const TOKEN_LIST_TYPES: TokenListType[] = [
+  "ALLOW_MINT",
+  "DENY_MINT",
+  "DENY_CREATOR",
+  "DENY_CHANNEL",
+];
+
+export const isTokenListType = (value: unknown): value is TokenListType =>
+  TOKEN_LIST_TYPES.includes(value as TokenListType);
+
+// An entry of one of the managed lists, as stored in token_lists
+export interface TokenListEntry {
+  id: number;
+  listType: TokenListType;
+  value: string;
+  reason: string | null;
+  createdAt: number;
+}
+
+// Outcome of checking a signal against the lists
+export interface TokenListCheckResult {
+  allowed: boolean;
+  // Why the signal was rejected, null when it passed
+  reason: string | null;
+}
+
+// Settings key of the allowlist-only flag
+const ALLOWLIST_ONLY_KEY = "allowlist_only";
+// Signature pages (1000 each) walked back to find a mint's creation
+const MAX_SIGNATURE_PAGES = 5;
+
+/**
+ * Managed allow and deny lists for signals
+ *
+ * Denied mints, denied creators (the wallet that paid for the mint's first
+ * transaction) and denied signal channels are stored in the token_lists
+ * table. In allowlist-only mode, BUY signals are only accepted for mints on
+ * the allowlist. Creators are resolved on-chain once and cached on the
+ * tokens table.
+ */
+export class TokenListService {
+  private connection: Connection | null = null;
+
+  constructor(private db: Database.Database) {}
+
+  /**
+   * Check a signal's channel, and for buys its mint and creator
+   *
+   * @param tokenAddress - The signaled token
+   * @param channel - Channel the signal came from
+   * @param isBuy - Mint and creator lists only apply to buys
+   * @returns Whether the signal is allowed, and the reason if it isn't
+   */
+  async checkSignal(
+    tokenAddress: string,
+    channel: string | null | undefined,
+    isBuy: boolean
+  ): Promise<TokenListCheckResult> {
+    if (channel) {
+      const channelEntry = this.findEntry(
+        "DENY_CHANNEL",
+        this.normalizeChannel(channel)
+      );
+      if (channelEntry) {
+        return this.reject(`channel ${channel} is denied`, channelEntry);
+      }
+    }
+
+    if (!isBuy) return { allowed: true, reason: null };
+
+    const mintEntry = this.findEntry("DENY_MINT", tokenAddress);
+    if (mintEntry) {
+      return this.reject(`mint ${tokenAddress} is denied`, mintEntry);
+    }
+
+    // Allowlisted mints skip the creator check
+    if (this.findEntry("ALLOW_MINT", tokenAddress)) {
+      return { allowed: true, reason: null };
+    }
+    if (this.isAllowlistOnly()) {
+      return this.reject(
+        `allowlist-only mode and ${tokenAddress} is not listed`
+      );
+    }
+
+    // Only look the creator up when there are creators to compare against
+    const { count } = this.db
+      .prepare(
+        `SELECT COUNT(*) as count FROM token_lists WHERE list_type = 'DENY_CREATOR'`
+      )
+      .get() as { count: number };
+    if (count > 0) {
+      const creator = await this.getTokenCreator(tokenAddress);
+      const creatorEntry = creator && this.findEntry("DENY_CREATOR", creator);
+      if (creatorEntry) {
+        return this.reject(`creator ${creator} is denied`, creatorEntry);
+      }
+    }
+
+    return { allowed: true, reason: null };
+  }
+
+  /**
+   * Get all list entries, newest first
+   */
+  getEntries(): TokenListEntry[] {
+    return this.db
+      .prepare(
+        `
+        SELECT
+          id,
+          list_type as listType,
+          value,
+          reason,
+          created_at as createdAt
+        FROM token_lists
+        ORDER BY created_at DESC, id DESC
+      `
+      )
+      .all() as TokenListEntry[];
+  }
+
+  /**
+   * Add a value to a list. Adding an existing value updates its reason
+   *
+   * @param listType - The list to add to
+   * @param value - Mint, creator address or channel
+   * @param reason - Why it was added
+   */
+  addEntry(listType: TokenListType, value: string, reason?: string | null) {
+    const normalized =
+      listType === "DENY_CHANNEL" ? this.normalizeChannel(value) : value.trim();
+    if (!normalized) {
+      throw new Error("List entry value is required");
+    }
+    if (listType !== "DENY_CHANNEL" && !this.isAddress(normalized)) {
+      throw new Error(`${normalized} is not a valid address`);
+    }
+
+    this.db
+      .prepare(
+        `
+        INSERT INTO token_lists (list_type, value, reason)
+        VALUES (?, ?, ?)
+        ON CONFLICT(list_type, value) DO UPDATE SET reason = excluded.reason
+      `
+      )
+      .run(listType, normalized, reason || null);
+    console.log(`📋 Added ${normalized} to ${listType}`);
+  }
+
+  /**
+   * Remove a list entry
+   *
+   * @param id - The entry's id
+   * @returns True if an entry was removed
+   */
+  removeEntry(id: number): boolean {
+    const result = this.db
+      .prepare(`DELETE FROM token_lists WHERE id = ?`)
+      .run(id);
+    return result.changes > 0;
+  }
+
+  /**
+   * Whether BUY signals are restricted to allowlisted mints
+   */
+  isAllowlistOnly(): boolean {
+    const row = this.db
+      .prepare(`SELECT value FROM settings WHERE key = ?`)
+      .get(ALLOWLIST_ONLY_KEY) as { value: string } | undefined;
+    return row?.value === "true";
+  }
+
+  setAllowlistOnly(enabled: boolean) {
+    this.db
+      .prepare(
+        `
+        INSERT INTO settings (key, value, updated_at)
+        VALUES (?, ?, unixepoch())
+        ON CONFLICT(key) DO UPDATE SET
+          value = excluded.value,
+          updated_at = excluded.updated_at
+      `
+      )
+      .run(ALLOWLIST_ONLY_KEY, enabled ? "true" : "false");
+    console.log(`📋 Allowlist-only mode ${enabled ? "enabled" : "disabled"}`);
+  }
+
+  /**
+   * Add the creator of a token to the creator blocklist, and the token itself
+   * to the mint denylist
+   *
+   * @param tokenAddress - The rugged token
+   * @param reason - Why the creator is blocked
+   * @returns The blocked creator, or null if it couldn't be resolved
+   */
+  async blockCreator(
+    tokenAddress: string,
+    reason?: string | null
+  ): Promise<string | null> {
+    this.addEntry("DENY_MINT", tokenAddress, reason);
+
+    const creator = await this.getTokenCreator(tokenAddress);
+    if (!creator) return null;
+
+    this.addEntry("DENY_CREATOR", creator, reason || `created ${tokenAddress}`);
+    return creator;
+  }
+
+  /**
+   * Get the wallet that created a token, cached on the tokens table
+   *
+   * @param tokenAddress - The token mint
+   * @returns The creator, or null if the mint's first transaction wasn't found
+   */
+  async getTokenCreator(tokenAddress: string): Promise<string | null> {
+    const stored = this.db
+      .prepare(`SELECT creator_address FROM tokens WHERE address = ?`)
+      .get(tokenAddress) as { creator_address: string | null } | undefined;
+    if (stored?.creator_address) return stored.creator_address;
+
+    const creator = await this.fetchTokenCreator(tokenAddress);
+    if (creator) {
+      this.db
+        .prepare(
+          `
+          INSERT INTO tokens (address, creator_address)
+          VALUES (?, ?)
+          ON CONFLICT(address) DO UPDATE SET
+            creator_address = excluded.creator_address
+        `
+        )
+        .run(tokenAddress, creator);
+    }
+    return creator;
+  }
+
+  // Fee payer of the mint's oldest transaction, the one that created it
+  private async fetchTokenCreator(
+    tokenAddress: string
+  ): Promise<string | null> {
+    try {
+      const connection = this.getConnection();
+      const mint = new PublicKey(tokenAddress);
+
+      let oldest: string | undefined;
+      let complete = false;
+      for (let page = 0; page < MAX_SIGNATURE_PAGES && !complete; page++) {
+        const signatures = await connection.getSignaturesForAddress(mint, {
+          before: oldest,
+          limit: 1000,
+        });
+        if (signatures.length > 0) {
+          oldest = signatures[signatures.length - 1].signature;
+        }
+        complete = signatures.length < 1000;
+      }
+
+      // With more history left, the creation is out of reach
+      if (!oldest || !complete) return null;
+
+      const transaction = await connection.getParsedTransaction(oldest, {
+        maxSupportedTransactionVersion: 0,
+      });
+      const feePayer = transaction?.transaction.message.accountKeys.find(
+        (key) => key.signer
+      );
+      return feePayer ? feePayer.pubkey.toBase58() : null;
+    } catch (error) {
+      console.error(`Error finding the creator of ${tokenAddress}:`, error);
+      return null;
+    }
+  }
+
+  private findEntry(listType: TokenListType, value: string) {
+    return this.db
+      .prepare(
+        `SELECT id, reason FROM token_lists WHERE list_type = ? AND value = ?`
+      )
+      .get(listType, value) as
+      | { id: number; reason: string | null }
+      | undefined;
+  }
+
+  // Channels are stored without the @ and lowercased, as usernames are
+  // case-insensitive
+  private normalizeChannel(channel: string): string {
+    return channel.trim().replace(/^@/, "").toLowerCase();
+  }
+
+  private isAddress(value: string): boolean {
+    try {
+      new PublicKey(value);
+      return value.length >= 32;
+    } catch {
+      return false;
+    }
+  }
+
+  private getConnection(): Connection {
+    if (!this.connection) {
+      this.connection = new Connection(
+        process.env.SOLANA_RPC_URL || "https://api.mainnet-beta.solana.com",
+        "confirmed"
+      );
+    }
+    return this.connection;
+  }
+
+  private reject(
+    reason: string,
+    entry?: { reason: string | null }
+  ): TokenListCheckResult {
+    return {
+      allowed: false,
+      reason: entry?.reason ? `${reason} (${entry.reason})` : reason,
+    };
+  }
+}
+
+export const createTokenListService = (db: Database.Database) => {
+  return new TokenListService(db);
+};
@@ -0,0 +1,335 @@
+// src/services/TokenRegistry.ts
+import Database from "better-sqlite3";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { getMintInfo } from "../utils/token-balance";
+
+// A token known to the registry, as stored in the tokens table
+export interface RegistryToken {
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  liquidity: number;
+  volume24h: number;
+  // Where the metadata came from: "jupiter" (token list), "metaplex" or
+  // "token-2022" (token metadata extension)
+  source: string | null;
+}
+
+const TOKEN_COLUMNS = `
+  address,
+  symbol,
+  name,
+  decimals,
+  COALESCE(liquidity, 0) as liquidity,
+  COALESCE(volume_24h, 0) as volume24h,
+  source
+`;
+
+// Default hours between full token list refreshes
+const DEFAULT_REFRESH_HOURS = 24;
+// How often to check whether the token list is due for a refresh
+const REFRESH_CHECK_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * Token metadata registry backed by the tokens table
+ *
+ * The full Jupiter token list is stored locally and refreshed on a schedule,
+ * so lookups by address or symbol never download the list. Mints the list
+ * doesn't know are filled in from their Metaplex metadata account, or the
+ * Token-2022 metadata extension.
+ */
+export class TokenRegistry {
+  private readonly TOKENS_API = "https://token.jup.ag/all";
+  private readonly METADATA_PROGRAM = new PublicKey(
+    "metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s"
+  );
+
+  private connection: Connection | null = null;
+  private refreshIntervalId: NodeJS.Timeout | null = null;
+  private refreshing: Promise<boolean> | null = null;
+
+  constructor(private db: Database.Database) {}
+
+  /**
+   * Look a token up by address, then by symbol (case-insensitive)
+   *
+   * @param addressOrSymbol - Mint address or token symbol
+   * @returns The stored token, or null if unknown
+   */
+  lookup(addressOrSymbol: string): RegistryToken | null {
+    const byAddress = this.db
+      .prepare(
+        // Rows created by rug scoring may not have metadata yet
+        `SELECT ${TOKEN_COLUMNS} FROM tokens WHERE address = ? AND symbol IS NOT NULL`
+      )
+      .get(addressOrSymbol) as RegistryToken | undefined;
+    if (byAddress) return byAddress;
+
+    // Prefer the most liquid token when several share a symbol
+    const bySymbol = this.db
+      .prepare(
+        `
+        SELECT ${TOKEN_COLUMNS} FROM tokens
+        WHERE symbol = ? COLLATE NOCASE
+        ORDER BY COALESCE(liquidity, 0) DESC
+        LIMIT 1
+      `
+      )
+      .get(addressOrSymbol) as RegistryToken | undefined;
+    return bySymbol || null;
+  }
+
+  /**
+   * Look a token up locally, falling back to its Metaplex metadata on-chain
+   *
+   * @param addressOrSymbol - Mint address or token symbol
+   * @returns The token, or null if neither the registry nor Metaplex knows it
+   */
+  async resolve(addressOrSymbol: string): Promise<RegistryToken | null> {
+    const token = this.lookup(addressOrSymbol);
+    if (token) return token;
+
+    // Symbols can only be resolved from the list
+    if (!this.isAddress(addressOrSymbol)) return null;
+
+    return this.fetchOnChainToken(addressOrSymbol);
+  }
+
+  /**
+   * Download the full token list and upsert it into the tokens table
+   *
+   * Liquidity and volume already stored for a token are kept.
+   *
+   * @returns True if the list was stored
+   */
+  async refresh(): Promise<boolean> {
+    // Share a refresh that is already running
+    if (!this.refreshing) {
+      this.refreshing = this.refreshTokenList().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Refresh the token list if the stored copy is older than TOKEN_LIST_REFRESH_HOURS
+   */
+  async refreshIfStale(): Promise<void> {
+    const refreshHours =
+      Number(process.env.TOKEN_LIST_REFRESH_HOURS) || DEFAULT_REFRESH_HOURS;
+    const lastRefresh = this.getLastRefresh();
+    if (lastRefresh && Date.now() - lastRefresh < refreshHours * 3600 * 1000) {
+      return;
+    }
+    await this.refresh();
+  }
+
+  /**
+   * Check hourly whether the token list is due for a refresh. Only one process
+   * needs to run the schedule, the others read the shared tokens table
+   */
+  startRefreshSchedule(intervalMs: number = REFRESH_CHECK_INTERVAL) {
+    if (this.refreshIntervalId) {
+      clearInterval(this.refreshIntervalId);
+    }
+
+    this.refreshIfStale().catch((error) => {
+      console.error("Error refreshing token list:", error);
+    });
+
+    this.refreshIntervalId = setInterval(() => {
+      this.refreshIfStale().catch((error) => {
+        console.error("Error refreshing token list:", error);
+      });
+    }, intervalMs);
+  }
+
+  stopRefreshSchedule() {
+    if (this.refreshIntervalId) {
+      clearInterval(this.refreshIntervalId);
+      this.refreshIntervalId = null;
+    }
+  }
+
+  private async refreshTokenList(): Promise<boolean> {
+    const response = await fetch(this.TOKENS_API);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    const tokens = await response.json();
+    if (!Array.isArray(tokens)) return false;
+
+    // Don't join a swap transaction another service has open on this connection,
+    // the next scheduled check will try again
+    if (this.db.inTransaction) {
+      console.warn(
+        "Database busy with a transaction, deferring token list refresh"
+      );
+      return false;
+    }
+
+    const upsert = this.db.prepare(`
+      INSERT INTO tokens (address, symbol, name, decimals, source, last_updated)
+      VALUES (?, ?, ?, ?, 'jupiter', unixepoch())
+      ON CONFLICT(address) DO UPDATE SET
+        symbol = excluded.symbol,
+        name = excluded.name,
+        decimals = excluded.decimals,
+        source = excluded.source,
+        last_updated = excluded.last_updated
+    `);
+
+    this.db.exec("BEGIN TRANSACTION");
+    try {
+      let stored = 0;
+      for (const token of tokens) {
+        if (!token?.address) continue;
+        upsert.run(
+          token.address,
+          token.symbol || "UNKNOWN",
+          token.name || token.symbol || "Unknown Token",
+          typeof token.decimals === "number" ? token.decimals : 9
+        );
+        stored++;
+      }
+      this.db.exec("COMMIT");
+      console.log(`📚 Token registry refreshed with ${stored} tokens`);
+      return true;
+    } catch (error) {
+      this.db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+
+  // Time of the last token list refresh (ms), null if never refreshed
+  private getLastRefresh(): number | null {
+    const result = this.db
+      .prepare(
+        `SELECT MAX(last_updated) as lastUpdated FROM tokens WHERE source = 'jupiter'`
+      )
+      .get() as { lastUpdated: number | null };
+    return result.lastUpdated ? result.lastUpdated * 1000 : null;
+  }
+
+  // Read name and symbol from the Metaplex metadata account, or from the
+  // Token-2022 metadata extension of the mint
+  private async fetchOnChainToken(
+    mintAddress: string
+  ): Promise<RegistryToken | null> {
+    try {
+      const mint = new PublicKey(mintAddress);
+      const [metadataAddress] = PublicKey.findProgramAddressSync(
+        [
+          Buffer.from("metadata"),
+          this.METADATA_PROGRAM.toBuffer(),
+          mint.toBuffer(),
+        ],
+        this.METADATA_PROGRAM
+      );
+
+      const connection = this.getConnection();
+      const [metadataAccount, mintInfo] = await Promise.all([
+        connection.getAccountInfo(metadataAddress),
+        getMintInfo(mintAddress, connection),
+      ]);
+      if (!mintInfo) return null;
+
+      let name: string;
+      let symbol: string;
+      let source: string;
+      if (metadataAccount) {
+        // Layout: key (1), update authority (32), mint (32), then borsh strings
+        // name, symbol and uri, each a u32 length followed by null-padded bytes
+        const data = metadataAccount.data;
+        let offset = 1 + 32 + 32;
+        const readString = () => {
+          const length = data.readUInt32LE(offset);
+          offset += 4;
+          const value = data
+            .subarray(offset, offset + length)
+            .toString("utf8")
+            .replace(/\0/g, "")
+            .trim();
+          offset += length;
+          return value;
+        };
+        name = readString();
+        symbol = readString();
+        source = "metaplex";
+      } else if (mintInfo.metadata) {
+        // Token-2022 mints can carry their metadata in the mint itself
+        ({ name, symbol } = mintInfo.metadata);
+        source = "token-2022";
+      } else {
+        return null;
+      }
+
+      const token: RegistryToken = {
+        address: mintAddress,
+        symbol: symbol || mintAddress.substring(0, 5),
+        name: name || symbol || mintAddress.substring(0, 8),
+        decimals: mintInfo.decimals,
+        liquidity: 0,
+        volume24h: 0,
+        source,
+      };
+
+      this.db
+        .prepare(
+          `
+          INSERT INTO tokens (address, symbol, name, decimals, source, last_updated)
+          VALUES (?, ?, ?, ?, ?, unixepoch())
+          ON CONFLICT(address) DO UPDATE SET
+            symbol = excluded.symbol,
+            name = excluded.name,
+            decimals = excluded.decimals,
+            source = excluded.source,
+            last_updated = excluded.last_updated
+        `
+        )
+        .run(
+          token.address,
+          token.symbol,
+          token.name,
+          token.decimals,
+          token.source
+        );
+
+      console.log(
+        `📚 Added ${token.symbol} (${mintAddress}) to the token registry from ${source} metadata`
+      );
+      return token;
+    } catch (error) {
+      console.error(
+        `Error reading Metaplex metadata for ${mintAddress}:`,
+        error
+      );
+      return null;
+    }
+  }
+
+  private isAddress(value: string): boolean {
+    try {
+      new PublicKey(value);
+      return value.length >= 32;
+    } catch {
+      return false;
+    }
+  }
+
+  private getConnection(): Connection {
+    if (!this.connection) {
+      this.connection = new Connection(
+        process.env.SOLANA_RPC_URL || "https://api.mainnet-beta.solana.com",
+        "confirmed"
+      );
+    }
+    return this.connection;
+  }
+}
+
+export const createTokenRegistry = (db: Database.Database) => {
+  return new TokenRegistry(db);
+};
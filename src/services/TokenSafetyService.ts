@@ -0,0 +1,212 @@
+// src/services/TokenSafetyService.ts
+import Database from "better-sqlite3";
+import { SolanaWalletClient, SwapVenue } from "../types/trade";
+import { getMintInfo } from "../utils/token-balance";
+import { getSwapSettings, getStrategyConfig } from "../utils/strategy";
+
+// Outcome of a pre-buy safety check
+export interface TokenSafetyResult {
+  safe: boolean;
+  // Why the token was rejected, null when it passed
+  reason: string | null;
+}
+
+// Token-2022 extensions that let the issuer block or take back transfers
+const BLOCKING_EXTENSIONS: Record<string, string> = {
+  permanentDelegate: "permanent delegate can move tokens out of any account",
+  nonTransferable: "token is non-transferable",
+  pausableConfig: "transfers can be paused",
+};
+
+// Default maximum Token-2022 transfer fee, in basis points
+const DEFAULT_MAX_TRANSFER_FEE_BPS = 500;
+// Default maximum loss when selling straight back what a buy would receive
+const DEFAULT_MAX_ROUND_TRIP_LOSS_PERCENTAGE = 25;
+
+// Sell simulation errors caused by not holding the token yet. The reverse
+// swap is simulated before buying, so these say nothing about the token
+const MISSING_BALANCE_ERRORS = [
+  "insufficient funds",
+  "insufficientfunds",
+  "accountnotfound",
+  "could not find account",
+  "accountnotinitialized",
+  '{"custom":1}',
+  '{"custom":3012}',
+];
+
+/**
+ * Pre-buy honeypot check
+ *
+ * A token is rejected if its mint or freeze authority is still set, if it
+ * uses a Token-2022 extension that can block or tax sells (transfer hook,
+ * permanent delegate, non-transferable, pausable, transfer fee above the
+ * limit), if there is no route to sell what the buy would receive, if that
+ * round trip loses too much, or if simulating the sell fails.
+ *
+ * Before the first buy the wallet doesn't hold the token, so the sell
+ * simulation fails on the missing balance and proves nothing: those failures
+ * let the token through. Only scale-in tranches, bought while the wallet
+ * holds the token, simulate selling tokens that actually exist.
+ */
+export class TokenSafetyService {
+  private readonly WRAPPED_SOL = "So11111111111111111111111111111111111111112";
+
+  constructor(
+    private db: Database.Database,
+    private swapVenue: SwapVenue,
+    private walletClient: SolanaWalletClient
+  ) {}
+
+  /**
+   * Check that a token can be sold again before buying it
+   *
+   * @param tokenAddress - The token about to be bought
+   * @param buyQuote - Quote for the buy, its output is quoted back to SOL
+   * @param heldAmount - Tokens the wallet already holds, to simulate selling
+   * @returns Whether the token passed, and the reason if it didn't
+   */
+  async checkToken(
+    tokenAddress: string,
+    buyQuote: any,
+    heldAmount?: number
+  ): Promise<TokenSafetyResult> {
+    if (process.env.TOKEN_SAFETY_CHECKS === "false") {
+      return { safe: true, reason: null };
+    }
+
+    // An offline venue's tokens have no mint account, only its quotes are checked
+    if (!this.swapVenue.offline) {
+      const mintRejection = await this.checkMint(tokenAddress);
+      if (mintRejection) return this.reject(mintRejection);
+    }
+
+    // Quote selling what the buy would receive straight back to SOL. No
+    // price impact cap, a thin route is judged by the round trip loss below
+    const swapSettings = getSwapSettings(getStrategyConfig());
+    const sellQuote = await this.swapVenue.getQuote({
+      inputMint: tokenAddress,
+      outputMint: this.WRAPPED_SOL,
+      amount: Number(buyQuote.outAmount),
+      slippageBps: swapSettings.slippageBps,
+      onlyDirectRoutes: swapSettings.onlyDirectRoutes,
+    });
+    if (!sellQuote) {
+      return this.reject("no route to sell the token back to SOL");
+    }
+
+    const maxRoundTripLoss =
+      Number(process.env.MAX_ROUND_TRIP_LOSS_PERCENTAGE) ||
+      DEFAULT_MAX_ROUND_TRIP_LOSS_PERCENTAGE;
+    const roundTripLoss =
+      (1 - Number(sellQuote.outAmount) / Number(buyQuote.inAmount)) * 100;
+    if (roundTripLoss > maxRoundTripLoss) {
+      return this.reject(
+        `selling straight back loses ${roundTripLoss.toFixed(
+          1
+        )}%, above ${maxRoundTripLoss}%`
+      );
+    }
+
+    if (this.swapVenue.simulateSwap) {
+      // With tokens in the wallet, simulate selling no more than is held
+      const simulatedQuote =
+        heldAmount && heldAmount < Number(buyQuote.outAmount)
+          ? await this.swapVenue.getQuote({
+              inputMint: tokenAddress,
+              outputMint: this.WRAPPED_SOL,
+              amount: heldAmount,
+              slippageBps: swapSettings.slippageBps,
+              onlyDirectRoutes: swapSettings.onlyDirectRoutes,
+            })
+          : sellQuote;
+      if (!simulatedQuote) {
+        return this.reject("no route to sell the held tokens back to SOL");
+      }
+
+      const simulation = await this.swapVenue.simulateSwap(
+        simulatedQuote,
+        this.walletClient
+      );
+      if (
+        !simulation.success &&
+        (heldAmount || !this.isMissingBalanceError(simulation))
+      ) {
+        return this.reject(`sell simulation failed: ${simulation.error}`);
+      }
+    }
+
+    console.log(
+      `🛡️ ${tokenAddress} passed safety checks (round trip loss ${roundTripLoss.toFixed(
+        1
+      )}%)`
+    );
+    return { safe: true, reason: null };
+  }
+
+  // Why the mint's authorities or Token-2022 extensions make it unsafe, null if they don't
+  private async checkMint(tokenAddress: string): Promise<string | null> {
+    const mintInfo = await getMintInfo(tokenAddress);
+    if (!mintInfo) {
+      return "mint account could not be read";
+    }
+
+    if (mintInfo.freezeAuthority) {
+      return `freeze authority ${mintInfo.freezeAuthority} can freeze holders`;
+    }
+    if (mintInfo.mintAuthority) {
+      return `mint authority ${mintInfo.mintAuthority} can mint new supply`;
+    }
+
+    if (mintInfo.transferHookProgramId) {
+      return `transfer hook program ${mintInfo.transferHookProgramId} runs on every transfer`;
+    }
+    for (const extension of mintInfo.extensions) {
+      if (BLOCKING_EXTENSIONS[extension]) {
+        return BLOCKING_EXTENSIONS[extension];
+      }
+    }
+
+    const maxTransferFeeBps =
+      Number(process.env.MAX_TRANSFER_FEE_BPS) || DEFAULT_MAX_TRANSFER_FEE_BPS;
+    if (mintInfo.transferFeeBasisPoints > maxTransferFeeBps) {
+      return `transfer fee of ${mintInfo.transferFeeBasisPoints} bps exceeds ${maxTransferFeeBps} bps`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Store why a signal's token was rejected on the signal
+   *
+   * @param signalId - The signal that triggered the buy
+   * @param reason - The rejection reason
+   */
+  recordRejection(signalId: string | null | undefined, reason: string): void {
+    if (!signalId) return;
+    try {
+      this.db
+        .prepare(`UPDATE signals SET rejection_reason = ? WHERE id = ?`)
+        .run(reason, signalId);
+    } catch (error) {
+      console.error(`Error storing rejection reason for ${signalId}:`, error);
+    }
+  }
+
+  private isMissingBalanceError(simulation: { error?: string }): boolean {
+    const error = (simulation.error || "").toLowerCase();
+    return MISSING_BALANCE_ERRORS.some((pattern) => error.includes(pattern));
+  }
+
+  private reject(reason: string): TokenSafetyResult {
+    return { safe: false, reason };
+  }
+}
+
+export const createTokenSafetyService = (
+  db: Database.Database,
+  swapVenue: SwapVenue,
+  walletClient: SolanaWalletClient
+) => {
+  return new TokenSafetyService(db, swapVenue, walletClient);
+};
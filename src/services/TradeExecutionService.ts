@@ -1,26 +1,69 @@
 import { generateObject, ModelClass, IAgentRuntime } from "@elizaos/core";
 import { Database } from "better-sqlite3";
 import { z } from "zod";
-import { JupiterService } from "./JupiterService";
-import { SolanaWalletClient, TokenInfo } from "../types/trade";
-import { PositionManager } from "./PositionManager";
+import {
+  isSwapFailed,
+  isSwapUnconfirmed,
+  JupiterService,
+} from "./JupiterService";
+import { SolanaWalletClient, SwapVenue, TokenInfo } from "../types/trade";
+import { Position, PositionManager } from "./PositionManager";
+import { PendingOrderManager } from "./PendingOrderManager";
+import { getStoredRugScore } from "./RugRiskService";
+import {
+  createSizingStrategy,
+  SizingDecision,
+  SizingStrategy,
+} from "./PositionSizingService";
+import { createRiskEngine, RiskEngine } from "./RiskEngine";
+import { createPaperSwapVenue } from "./PaperSwapVenue";
+import {
+  createTokenSafetyService,
+  TokenSafetyService,
+} from "./TokenSafetyService";
 import { randomUUID } from "../utils/uuid";
-
-const PositionSizeSchema = z.object({
-  lamports: z.number(),
-  reasoning: z.string(),
-});
+import { getPaperBalance, isPaperTrading } from "../utils/paper-trading";
+import { getSolBalance, getTokenPrice } from "../utils/market-data";
+import {
+  getStrategyConfig,
+  getSwapSettings,
+  StrategyConfig,
+} from "../utils/strategy";
+import {
+  canExitAutomatically,
+  canOpenPositions,
+  getTradingMode,
+} from "../utils/trading-mode";
 
 export class TradeExecutionService {
   private readonly WRAPPED_SOL = "So11111111111111111111111111111111111111112";
 
+  private swapVenue: SwapVenue;
+  private paperVenue: SwapVenue;
+  private tokenSafety: TokenSafetyService;
+  private riskEngine: RiskEngine;
+  private sizingStrategy: SizingStrategy;
+
   constructor(
     private jupiterService: JupiterService,
     private walletClient: SolanaWalletClient,
     private db: Database,
     private runtime: IAgentRuntime,
-    private positionManager: PositionManager
-  ) {}
+    private positionManager: PositionManager,
+    private pendingOrderManager?: PendingOrderManager,
+    swapVenue?: SwapVenue
+  ) {
+    // Quotes and swaps go through this venue (e.g. a SwapRouter), Jupiter by default
+    this.swapVenue = swapVenue || jupiterService;
+    this.paperVenue = createPaperSwapVenue(db, this.swapVenue, jupiterService);
+    this.tokenSafety = createTokenSafetyService(
+      db,
+      this.swapVenue,
+      walletClient
+    );
+    this.riskEngine = createRiskEngine(db);
+    this.sizingStrategy = createSizingStrategy(db, runtime);
+  }
   
   /**
    * Centralized function to save token information to the database
@@ -31,8 +74,9 @@ export class TradeExecutionService {
       // Get token decimals from on-chain data if available
       const decimals = token.decimals || 9; // Default to 9 for meme tokens
       
+      // Upsert so columns owned by other services (e.g. rug_score) survive
       this.db.prepare(`
-        INSERT OR REPLACE INTO tokens (
+        INSERT INTO tokens (
           address, 
           symbol, 
           name,
@@ -41,6 +85,13 @@ export class TradeExecutionService {
           volume_24h, 
           last_updated
         ) VALUES (?, ?, ?, ?, ?, ?, unixepoch())
+        ON CONFLICT(address) DO UPDATE SET
+          symbol = excluded.symbol,
+          name = excluded.name,
+          decimals = excluded.decimals,
+          liquidity = excluded.liquidity,
+          volume_24h = excluded.volume_24h,
+          last_updated = excluded.last_updated
       `).run(
         token.address,
         token.symbol,
@@ -59,8 +110,16 @@ export class TradeExecutionService {
   }
 
   async executeTrade(signal: any): Promise<boolean> {
+    const tradingMode = getTradingMode(this.db);
+
     // Handle sell signals differently from buy signals
     if (signal.type === "SELL") {
+      if (!canExitAutomatically(tradingMode)) {
+        console.log(
+          `🚦 Ignoring SELL signal for ${signal.tokenAddress}, trading mode is ${tradingMode}`
+        );
+        return false;
+      }
       return this.executeSellTrade(signal);
     } else {
       return this.executeBuyTrade(signal);
@@ -73,48 +132,194 @@ export class TradeExecutionService {
       this.db.exec("BEGIN TRANSACTION");
 
       try {
+        // A swap of the token is still unconfirmed and may have landed
+        if (this.positionManager.hasUnconfirmedSwap(signal.tokenAddress)) {
+          this.db.exec("ROLLBACK");
+          console.log(
+            `⏳ Not buying ${signal.tokenAddress}, an earlier swap is unconfirmed`
+          );
+          return false;
+        }
+
         // Check for existing position
         const existingPosition = await this.positionManager.getPositionByToken(
           signal.tokenAddress
         );
         if (existingPosition) {
+          this.db.exec("ROLLBACK");
+
+          // A repeat mention within the scale-in window buys the next tranche
+          if (this.positionManager.canScaleIn(existingPosition)) {
+            return this.executeScaleInTrade(signal, existingPosition);
+          }
+
           console.log(`Already have position in ${signal.tokenAddress}`);
+          return false;
+        }
+
+        const tradingMode = getTradingMode(this.db);
+        if (!canOpenPositions(tradingMode)) {
           this.db.exec("ROLLBACK");
+          console.log(
+            `🚦 Not buying ${signal.tokenAddress}, trading mode is ${tradingMode}`
+          );
           return false;
         }
 
-        // Get wallet balance
-        const balance = await this.walletClient.balanceOf(
-          this.walletClient.getAddress()
-        );
+        // Paper trades are sized from and settled against the virtual balance
+        const paper = isPaperTrading(this.db);
+        const venue = paper ? this.paperVenue : this.swapVenue;
+        const balance = paper
+          ? getPaperBalance(this.db)
+          : await getSolBalance(this.swapVenue, this.walletClient);
+
+        // Size the position with the configured sizing strategy
+        const sizing = await this.getPositionSize(signal, balance);
+        const requestedSize = sizing.lamports;
+        if (requestedSize <= 0) {
+          this.db.exec("ROLLBACK");
+          console.log(
+            `📏 Not buying ${signal.tokenAddress}, ${sizing.strategy} sizing chose 0 lamports`
+          );
+          return false;
+        }
 
-        // Let AI decide position size
-        const positionSize = await this.getPositionSize(
-          signal,
-          Number(balance.value)
+        // Portfolio limits apply before anything is bought or ordered
+        const risk = await this.riskEngine.checkBuy(
+          signal.tokenAddress,
+          requestedSize,
+          paper
         );
+        if (!risk.allowed) {
+          this.db.exec("ROLLBACK");
+          console.log(
+            `🧯 Not buying ${signal.tokenAddress}: ${risk.reason}`
+          );
+          return false;
+        }
+        const plannedSize = risk.lamports;
+        sizing.inputs.riskLimitedLamports = plannedSize;
+
+        // Don't buy the top of a pump, wait for a retrace instead
+        const strategy = getStrategyConfig();
+        if (
+          signal.pumpDetected &&
+          signal.price &&
+          this.pendingOrderManager &&
+          strategy.limitEntryRetracePercentage > 0
+        ) {
+          this.db.exec("ROLLBACK");
+          return this.placeLimitEntry(
+            signal,
+            plannedSize,
+            strategy,
+            sizing,
+            paper
+          );
+        }
 
-        // Get quote
-        const quote = await this.jupiterService.getQuote({
+        // Strong signals are entered in tranches, starting with a partial buy
+        const buyStrength = signal.buySignalStrength || signal.confidence || 50;
+        const tranchesPlanned =
+          buyStrength >= strategy.scaleInMinSignalStrength
+            ? Math.max(1, Math.floor(strategy.scaleInTranches))
+            : 1;
+        const positionSize =
+          tranchesPlanned > 1
+            ? Math.floor(
+                (plannedSize * strategy.scaleInInitialPercentage) / 100
+              )
+            : plannedSize;
+
+        if (tranchesPlanned > 1) {
+          console.log(
+            `📐 Scaling into ${signal.tokenAddress} over ${tranchesPlanned} tranches, first tranche ${positionSize} of ${plannedSize} lamports`
+          );
+        }
+
+        // Get quote with slippage scaled to the token's liquidity
+        const swapSettings = getSwapSettings(strategy, signal.liquidity);
+        const quote = await venue.getQuote({
           inputMint: this.WRAPPED_SOL,
           outputMint: signal.tokenAddress,
           amount: positionSize,
+          slippageBps: swapSettings.slippageBps,
+          onlyDirectRoutes: swapSettings.onlyDirectRoutes,
+          maxPriceImpactPct: swapSettings.maxPriceImpactPct,
         });
 
         if (!quote) {
+          console.log(
+            `No acceptable quote for ${signal.tokenAddress}, skipping buy`
+          );
+          this.db.exec("ROLLBACK");
+          return false;
+        }
+
+        // Make sure the token can be sold again before spending SOL on it
+        const safety = await this.tokenSafety.checkToken(
+          signal.tokenAddress,
+          quote
+        );
+        if (!safety.safe) {
           this.db.exec("ROLLBACK");
+          console.warn(
+            `🚫 Rejected buy of ${signal.tokenAddress}: ${safety.reason}`
+          );
+          this.tokenSafety.recordRejection(signal.id, safety.reason!);
           return false;
         }
 
+        // Seed the position's stop and target from the stored signal, if any
+        const signalLevels = this.db
+          .prepare(`SELECT stop_loss, take_profit FROM signals WHERE id = ?`)
+          .get(signal.id) as
+          | { stop_loss: number | null; take_profit: number | null }
+          | undefined;
+        const stopLossPrice = signalLevels?.stop_loss ?? signal.stopLoss;
+        const takeProfitPrice = signalLevels?.take_profit ?? signal.takeProfit;
+
         // Execute swap
-        const result = await this.jupiterService.executeSwap(
+        const result = await venue.executeSwap(
           quote,
-          this.walletClient
+          this.walletClient,
+          signal.urgencyLevel || "medium"
         );
         if (!result) {
           this.db.exec("ROLLBACK");
           return false;
         }
+        if (isSwapFailed(result)) {
+          this.db.exec("ROLLBACK");
+          this.positionManager.recordFailedSwap(
+            signal.tokenAddress,
+            result,
+            signal.id,
+            paper
+          );
+          return false;
+        }
+        if (isSwapUnconfirmed(result)) {
+          this.db.exec("ROLLBACK");
+          this.positionManager.recordUnconfirmedSwap("BUY", quote, result, {
+            signalId: signal.id,
+            details: {
+              price: signal.price,
+              plannedSize,
+              tranchesPlanned,
+              stopLossPrice,
+              takeProfitPrice,
+              sizingStrategy: sizing.strategy,
+              sizingInputs: JSON.stringify(sizing.inputs),
+              sizingLamports: plannedSize,
+              paper,
+            },
+          });
+          return false;
+        }
+
+        // Use the actual fill rather than the quote
+        const fillPrice = result.effectivePrice ?? signal.price;
         
         // We'll get token info from both sources and merge them
         let proficyTokenInfo = null;
@@ -125,7 +330,10 @@ export class TradeExecutionService {
             proficyTokenInfo = signal.tokenInfo;
         }
         
-        jupiterTokenInfo = await this.jupiterService.getTokenInfo(signal.tokenAddress);
+        // An offline venue's tokens are listed nowhere
+        if (!this.swapVenue.offline) {
+            jupiterTokenInfo = await this.jupiterService.getTokenInfo(signal.tokenAddress);
+        }
         
         const tokenInfo = jupiterTokenInfo ? {
             ...jupiterTokenInfo,
@@ -149,31 +357,59 @@ export class TradeExecutionService {
             entry_time,
             status,
             signal_id,
-            tx_id
-          ) VALUES (?, ?, ?, ?, unixepoch(), ?, ?, ?)
+            tx_id,
+            token_amount,
+            sol_amount,
+            fee,
+            priority_fee,
+            effective_price,
+            sizing_strategy,
+            sizing_inputs,
+            sizing_lamports,
+            paper
+          ) VALUES (?, ?, ?, ?, unixepoch(), ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `
           )
           .run(
             randomUUID(),
             signal.tokenAddress,
-            positionSize,
-            signal.price,
+            result.inputAmount,
+            fillPrice,
             "EXECUTED",
             signal.id,
-            result.txid
+            result.txid,
+            result.outputAmount,
+            result.inputAmount,
+            result.fee,
+            result.priorityFee ?? null,
+            result.effectivePrice,
+            sizing.strategy,
+            JSON.stringify(sizing.inputs),
+            plannedSize,
+            paper ? 1 : 0
           );
 
         // Create position record
         await this.positionManager.createPosition({
           tokenAddress: signal.tokenAddress,
-          amount: Number(quote.outAmount),
-          entryPrice: signal.price,
+          amount: result.outputAmount,
+          entryPrice: fillPrice,
+          stopLossPrice,
+          takeProfitPrice,
+          plannedSize,
+          deployedSize: result.inputAmount,
+          tranchesPlanned,
+          feesPaid: result.fee,
+          signalId: signal.id,
+          paper,
         });
 
         // Commit transaction
         this.db.exec("COMMIT");
 
-        console.log(`✅ Position created for ${signal.tokenAddress}`);
+        console.log(
+          `✅ ${paper ? "Paper position" : "Position"} created for ${signal.tokenAddress}`
+        );
         return true;
       } catch (error) {
         // Rollback transaction on error
@@ -186,6 +422,71 @@ export class TradeExecutionService {
     }
   }
 
+  private placeLimitEntry(
+    signal: any,
+    size: number,
+    strategy: StrategyConfig,
+    sizing: SizingDecision,
+    paper: boolean
+  ): boolean {
+    const triggerPrice =
+      signal.price * (1 - strategy.limitEntryRetracePercentage / 100);
+
+    console.log(
+      `⏳ ${signal.tokenAddress} already pumped${
+        signal.pumpMultiplier ? ` (${signal.pumpMultiplier}x)` : ""
+      }, waiting for a ${strategy.limitEntryRetracePercentage}% retrace`
+    );
+
+    const order = this.pendingOrderManager!.createOrder({
+      tokenAddress: signal.tokenAddress,
+      triggerPrice,
+      size,
+      expiresAt: Date.now() + strategy.limitEntryExpiryMinutes * 60 * 1000,
+      signalId: signal.id,
+      signalPrice: signal.price,
+      sizingStrategy: sizing.strategy,
+      sizingInputs: sizing.inputs,
+      paper,
+    });
+
+    return order !== null;
+  }
+
+  private async executeScaleInTrade(
+    signal: any,
+    position: Position
+  ): Promise<boolean> {
+    try {
+      const price =
+        signal.price ||
+        (await getTokenPrice(
+          this.swapVenue,
+          this.jupiterService,
+          signal.tokenAddress
+        ));
+      if (!price) {
+        console.log(`No price for scale-in on ${signal.tokenAddress}`);
+        return false;
+      }
+
+      console.log(
+        `🔁 Repeat mention of ${signal.tokenAddress}, adding scale-in tranche`
+      );
+
+      const updated = await this.positionManager.executeScaleInTranche(
+        position.id,
+        price,
+        signal.id
+      );
+
+      return updated !== null;
+    } catch (error) {
+      console.error("Scale-in trade execution failed:", error);
+      return false;
+    }
+  }
+
   private async executeSellTrade(signal: any): Promise<boolean> {
     try {
       // Check for existing position
@@ -213,8 +514,15 @@ export class TradeExecutionService {
       );
 
       // Use the PositionManager's closePosition functionality
+      const swapSettings = getSwapSettings(
+        getStrategyConfig(position.strategy),
+        signal.liquidity
+      );
       const success = await this.positionManager.closePositionByToken(
-        signal.tokenAddress
+        signal.tokenAddress,
+        "SELL_SIGNAL",
+        decision.reasoning,
+        swapSettings
       );
 
       if (success) {
@@ -249,7 +557,11 @@ export class TradeExecutionService {
       // If we don't have current price information, get it
       const currentPrice =
         signal.price ||
-        (await this.jupiterService.getCurrentPrice(signal.tokenAddress)) ||
+        (await getTokenPrice(
+          this.swapVenue,
+          this.jupiterService,
+          signal.tokenAddress
+        )) ||
         position.currentPrice;
 
       // Calculate profit or loss based on available data
@@ -302,32 +614,36 @@ export class TradeExecutionService {
     }
   }
 
-  private async getPositionSize(signal: any, balance: number): Promise<number> {
-    // Extract the buySignalStrength if available, or fall back to confidence
-    const buyStrength = signal.buySignalStrength || signal.confidence || 50;
-
-    // Calculate the max percentage of balance to use based on buyStrength
-    // Minimum 0.5%, maximum 5%
-    const maxPercentage = 0.5 + (buyStrength / 100) * 4.5;
-
-    // Calculate the base position size as a percentage of the balance
-    const basePositionSize = balance * (maxPercentage / 100);
+  private async getPositionSize(
+    signal: any,
+    balance: number
+  ): Promise<SizingDecision> {
+    const decision = await this.sizingStrategy.size(signal, balance);
 
     // Adjust for token liquidity and volume
-    let adjustedSize = basePositionSize;
+    let adjustedSize = decision.lamports;
 
     // Reduce position size for low liquidity tokens
+    let liquidityFactor = 1;
     if (signal.liquidity && signal.liquidity < 100000) {
-      const liquidityFactor = Math.max(signal.liquidity / 100000, 0.5);
+      liquidityFactor = Math.max(signal.liquidity / 100000, 0.5);
       adjustedSize *= liquidityFactor;
     }
 
     // Reduce position size for low volume tokens
+    let volumeFactor = 1;
     if (signal.volume24h && signal.volume24h < 50000) {
-      const volumeFactor = Math.max(signal.volume24h / 50000, 0.5);
+      volumeFactor = Math.max(signal.volume24h / 50000, 0.5);
       adjustedSize *= volumeFactor;
     }
 
+    // Reduce position size for tokens with rug risk, e.g. half size at 50/100
+    const rugScore =
+      signal.rugScore ?? getStoredRugScore(this.db, signal.tokenAddress);
+    if (rugScore) {
+      adjustedSize *= Math.max(1 - rugScore / 100, 0);
+    }
+
     // Ensure there's enough for gas fees (reserve at least 0.01 SOL)
     const minSolReserve = 10_000_000; // 0.01 SOL in lamports
     adjustedSize = Math.min(adjustedSize, balance - minSolReserve);
@@ -338,7 +654,24 @@ export class TradeExecutionService {
     // Round to an integer (lamports)
     const finalPositionSize = Math.floor(adjustedSize);
 
-    return finalPositionSize;
+    console.log(
+      `📏 Sized ${signal.tokenAddress} with ${decision.strategy}: ${finalPositionSize} lamports${
+        decision.reasoning ? ` (${decision.reasoning})` : ""
+      }`
+    );
+
+    return {
+      ...decision,
+      lamports: finalPositionSize,
+      inputs: {
+        ...decision.inputs,
+        strategyLamports: decision.lamports,
+        liquidityFactor,
+        volumeFactor,
+        rugScore: rugScore ?? null,
+        reasoning: decision.reasoning,
+      },
+    };
   }
 }
 
@@ -347,13 +680,17 @@ export const createTradeExecutionService = (
   walletClient: SolanaWalletClient,
   db: Database,
   runtime: IAgentRuntime,
-  positionManager: PositionManager
+  positionManager: PositionManager,
+  pendingOrderManager?: PendingOrderManager,
+  swapVenue?: SwapVenue
 ) => {
   return new TradeExecutionService(
     jupiterService,
     walletClient,
     db,
     runtime,
-    positionManager
+    positionManager,
+    pendingOrderManager,
+    swapVenue
   );
 };
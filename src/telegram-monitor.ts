@@ -9,10 +9,16 @@ import { SqliteDatabaseAdapter } from "@elizaos/adapter-sqlite";
 import { degen } from "./characters/degen";
 import { initializeWalletWithConnection } from "./utils/wallet";
 import { createJupiterService } from "./services/JupiterService";
+import { createPriorityFeeService } from "./services/PriorityFeeService";
+import { createTokenRegistry } from "./services/TokenRegistry";
+import { createConfiguredSwapRouter } from "./services/SwapRouter";
 import { createTradeExecutionService } from "./services/TradeExecutionService";
 import { createProficyService } from "./services/ProficyService";
 import { createSentimentAnalysisService } from "./services/SentimentAnalysisService";
+import { createRugRiskService } from "./services/RugRiskService";
+import { createTokenListService } from "./services/TokenListService";
 import { createPositionManager } from "./services/PositionManager";
+import { createPendingOrderManager } from "./services/PendingOrderManager";
 import { elizaSchema, telegramSchema, tradingSchema } from "./utils/db-schema";
 import path from "path";
 import { fileURLToPath } from "url";
@@ -81,12 +87,26 @@ async function main() {
     // Create runtime
     const runtime = await createRuntime(dbAdapter);
 
-    const jupiterService = createJupiterService();
+    const jupiterService = createJupiterService(
+      createPriorityFeeService(sqliteDb),
+      createTokenRegistry(sqliteDb)
+    );
+
+    const swapRouter = createConfiguredSwapRouter(jupiterService);
 
     const positionManager = createPositionManager(
       sqliteDb,
       jupiterService,
-      walletClient
+      walletClient,
+      swapRouter
+    );
+
+    const pendingOrderManager = createPendingOrderManager(
+      sqliteDb,
+      jupiterService,
+      walletClient,
+      positionManager,
+      swapRouter
     );
 
     const tradeExecutionService = createTradeExecutionService(
@@ -94,7 +114,9 @@ async function main() {
       walletClient,
       sqliteDb,
       runtime,
-      positionManager
+      positionManager,
+      pendingOrderManager,
+      swapRouter
     );
 
     // Debug log for TELEGRAM_SESSION
@@ -133,6 +155,8 @@ async function main() {
       tradeExecutionService: tradeExecutionService,
       proficyService: proficyService,
       sentimentService: sentimentService,
+      rugRiskService: createRugRiskService(sqliteDb),
+      tokenListService: createTokenListService(sqliteDb),
       ...(channelIds ? { channelIds } : {}), // Only pass if defined
     });
 
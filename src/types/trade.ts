@@ -10,6 +10,10 @@ export interface TokenInfo {
   liquidity?: number;
   volume24h?: number;
   holders?: number;
+  // Authority flags reported by ProficyPriceBot, null if not reported
+  renounced?: boolean | null;
+  mintEnabled?: boolean | null;
+  freezable?: boolean | null;
   isValid: boolean;
 }
 
@@ -79,6 +83,53 @@ export interface SolanaWalletClient extends WalletClient {
   [key: string]: any; // Index signature to allow string indexing
 }
 
+// How urgently a swap needs to land, matching EnhancedSignal.urgencyLevel
+export type SwapUrgency = "low" | "medium" | "high";
+
+export interface QuoteParams {
+  inputMint: string;
+  outputMint: string;
+  // Raw input amount (lamports when selling SOL)
+  amount: number;
+  slippageBps?: number;
+  onlyDirectRoutes?: boolean;
+  // Refuse quotes above this price impact (percent)
+  maxPriceImpactPct?: number;
+}
+
+// A place tokens can be swapped: an aggregator like Jupiter or a single
+// AMM / bonding curve. Quotes carry at least inputMint, outputMint, inAmount,
+// outAmount and priceImpactPct
+export interface SwapVenue {
+  readonly name: string;
+  // Fills locally without touching the chain (the mock venue). Its tokens
+  // exist nowhere on-chain, so mint and balance lookups are skipped
+  readonly offline?: boolean;
+  // Resolves to null when the venue has no acceptable route
+  getQuote(params: QuoteParams): Promise<any>;
+  executeSwap(
+    quote: any,
+    walletClient: SolanaWalletClient,
+    urgency?: SwapUrgency
+  ): Promise<SwapResponse | null>;
+  // Build the swap transaction for a quote and simulate it without sending.
+  // Optional, venues without it skip simulation-based checks
+  simulateSwap?(
+    quote: any,
+    walletClient: SolanaWalletClient
+  ): Promise<SwapSimulation>;
+  // Offline venues are their own market: they price their tokens in USD and
+  // hold the wallet's SOL in lamports, instead of the price APIs and the chain
+  getPrice?(tokenAddress: string): Promise<number | null>;
+  getBalance?(walletAddress: string): Promise<number>;
+}
+
+export interface SwapSimulation {
+  success: boolean;
+  // Simulation error with the last program logs, if it failed
+  error?: string;
+}
+
 export interface QuoteResponse {
   inputMint: string;
   outputMint: string;
@@ -93,6 +144,21 @@ export interface QuoteResponse {
 
 export interface SwapResponse {
   txid: string;
+  // Raw amounts actually spent and received, read from the confirmed transaction
+  // without the rent of accounts it created. The quoted amounts while the swap
+  // is UNCONFIRMED
   inputAmount: number;
   outputAmount: number;
+  // Network fee in lamports, including the priority fee
+  fee: number;
+  // Priority fee requested for the swap in lamports, null if left to Jupiter
+  priorityFee?: number | null;
+  // Filled price in USD per token, null if unknown
+  effectivePrice: number | null;
+  // CONFIRMED: landed and succeeded, FAILED: landed but failed on-chain,
+  // UNCONFIRMED: sent but its outcome is unknown, not a fill until re-checked,
+  // REJECTED: failed pre-flight simulation or a deterministic send error, not sent
+  status: "CONFIRMED" | "FAILED" | "UNCONFIRMED" | "REJECTED";
+  // Failure reason, including the last program logs when available
+  error?: string;
 }
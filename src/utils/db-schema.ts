@@ -11,7 +11,26 @@ export const tradingSchema = `
     last_updated INTEGER NOT NULL,
     profit_loss NUMERIC,
     trailing_stop_percentage NUMERIC DEFAULT 20,
+    initial_amount NUMERIC,
+    take_profit_ladder TEXT,
+    stop_loss_price NUMERIC,
+    take_profit_price NUMERIC,
+    breakeven_trigger_percentage NUMERIC,
+    entry_time INTEGER,
+    highest_price_at INTEGER,
+    max_holding_minutes NUMERIC,
+    stale_after_minutes NUMERIC,
+    strategy TEXT DEFAULT 'default',
+    planned_size NUMERIC,
+    deployed_size NUMERIC,
+    tranches_planned INTEGER DEFAULT 1,
+    tranches_filled INTEGER DEFAULT 1,
+    last_entry_price NUMERIC,
+    last_entry_time INTEGER,
+    fees_paid NUMERIC DEFAULT 0,
     exit_time INTEGER,
+    signal_id TEXT,
+    paper INTEGER DEFAULT 0,
     status TEXT CHECK (status IN ('ACTIVE', 'CLOSED', 'LIQUIDATED'))
   );
 
@@ -32,9 +51,113 @@ export const tradingSchema = `
     exit_time INTEGER,
     profit_loss NUMERIC,
     status TEXT,
-    tx_id TEXT
+    tx_id TEXT,
+    exit_reason TEXT,
+    token_amount NUMERIC,
+    sol_amount NUMERIC,
+    fee NUMERIC,
+    priority_fee NUMERIC,
+    effective_price NUMERIC,
+    failure_reason TEXT,
+    sizing_strategy TEXT,
+    sizing_inputs TEXT,
+    sizing_lamports INTEGER,
+    paper INTEGER DEFAULT 0
+  );
+
+  CREATE TABLE IF NOT EXISTS trade_exits (
+    id TEXT PRIMARY KEY,
+    trade_id TEXT NOT NULL,
+    position_id TEXT,
+    trigger_type TEXT NOT NULL,
+    trigger_price NUMERIC,
+    entry_price NUMERIC,
+    highest_price NUMERIC,
+    stop_loss_price NUMERIC,
+    take_profit_price NUMERIC,
+    drawdown_percentage NUMERIC,
+    profit_loss_percentage NUMERIC,
+    reasoning TEXT,
+    created_at INTEGER DEFAULT (unixepoch())
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_trade_exits_trade_id
+    ON trade_exits(trade_id);
+
+  CREATE TABLE IF NOT EXISTS price_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    token_address TEXT NOT NULL,
+    price NUMERIC NOT NULL,
+    timestamp INTEGER NOT NULL,
+    source TEXT
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_price_history_token_timestamp
+    ON price_history(token_address, timestamp);
+
+  CREATE TABLE IF NOT EXISTS pending_orders (
+    id TEXT PRIMARY KEY,
+    token_address TEXT NOT NULL,
+    signal_id TEXT,
+    signal_price NUMERIC,
+    trigger_price NUMERIC NOT NULL,
+    size NUMERIC NOT NULL,
+    status TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL,
+    filled_at INTEGER,
+    filled_price NUMERIC,
+    tx_id TEXT,
+    position_id TEXT,
+    sizing_strategy TEXT,
+    sizing_inputs TEXT,
+    paper INTEGER DEFAULT 0
   );
 
+  CREATE INDEX IF NOT EXISTS idx_pending_orders_status
+    ON pending_orders(status);
+
+  CREATE TABLE IF NOT EXISTS twap_exits (
+    id TEXT PRIMARY KEY,
+    position_id TEXT NOT NULL,
+    token_address TEXT NOT NULL,
+    exit_reason TEXT NOT NULL,
+    reasoning TEXT,
+    total_amount NUMERIC NOT NULL,
+    remaining_amount NUMERIC NOT NULL,
+    chunks_total INTEGER NOT NULL,
+    chunks_done INTEGER NOT NULL DEFAULT 0,
+    interval_seconds INTEGER NOT NULL,
+    next_chunk_at INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_twap_exits_status
+    ON twap_exits(status);
+
+  CREATE TABLE IF NOT EXISTS unconfirmed_swaps (
+    id TEXT PRIMARY KEY,
+    tx_id TEXT NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('BUY', 'SCALE_IN', 'SELL')),
+    token_address TEXT NOT NULL,
+    position_id TEXT,
+    signal_id TEXT,
+    input_mint TEXT NOT NULL,
+    output_mint TEXT NOT NULL,
+    in_amount NUMERIC NOT NULL,
+    out_amount NUMERIC NOT NULL,
+    priority_fee NUMERIC,
+    details TEXT,
+    status TEXT NOT NULL CHECK (status IN ('PENDING', 'CONFIRMED', 'FAILED', 'DROPPED')),
+    created_at INTEGER NOT NULL,
+    resolved_at INTEGER
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_unconfirmed_swaps_status
+    ON unconfirmed_swaps(status);
+
   CREATE TABLE IF NOT EXISTS tokens (
     address TEXT PRIMARY KEY,
     symbol TEXT,
@@ -42,7 +165,30 @@ export const tradingSchema = `
     decimals INTEGER DEFAULT 9,
     liquidity NUMERIC,
     volume_24h NUMERIC,
-    last_updated INTEGER DEFAULT (unixepoch())
+    last_updated INTEGER DEFAULT (unixepoch()),
+    source TEXT,
+    rug_score INTEGER,
+    rug_factors TEXT,
+    rug_checked_at INTEGER,
+    creator_address TEXT
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_tokens_symbol
+    ON tokens(symbol COLLATE NOCASE);
+
+  CREATE TABLE IF NOT EXISTS settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    updated_at INTEGER DEFAULT (unixepoch())
+  );
+
+  CREATE TABLE IF NOT EXISTS token_lists (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    list_type TEXT NOT NULL CHECK (list_type IN ('ALLOW_MINT', 'DENY_MINT', 'DENY_CREATOR', 'DENY_CHANNEL')),
+    value TEXT NOT NULL,
+    reason TEXT,
+    created_at INTEGER DEFAULT (unixepoch()),
+    UNIQUE (list_type, value)
   );
 
   CREATE TABLE IF NOT EXISTS balance_history (
@@ -115,7 +261,8 @@ export const telegramSchema = `
       stop_loss NUMERIC,
       take_profit NUMERIC,
       liquidity NUMERIC,
-      volume_24h NUMERIC
+      volume_24h NUMERIC,
+      rejection_reason TEXT
     );
 
     CREATE TABLE IF NOT EXISTS analysis (
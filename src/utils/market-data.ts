@@ -0,0 +1,39 @@
+// src/utils/market-data.ts
+import { JupiterService } from "../services/JupiterService";
+import { SolanaWalletClient, SwapVenue } from "../types/trade";
+
+/**
+ * Get a token's USD price, from the venue itself when it prices its own
+ * tokens (the offline mock venue) and from Jupiter otherwise
+ *
+ * @param venue - The venue swaps go through
+ * @param jupiterService - Price source for real venues
+ * @param tokenAddress - The token to price
+ * @returns The price, or null if there is none
+ */
+export const getTokenPrice = (
+  venue: SwapVenue,
+  jupiterService: JupiterService,
+  tokenAddress: string
+): Promise<number | null> => {
+  return venue.getPrice
+    ? venue.getPrice(tokenAddress)
+    : jupiterService.getCurrentPrice(tokenAddress);
+};
+
+/**
+ * Get the wallet's SOL balance in lamports, from the venue itself when it
+ * holds the wallet's SOL (the offline mock venue) and on-chain otherwise
+ *
+ * @param venue - The venue swaps go through
+ * @param walletClient - The trading wallet
+ * @returns The balance in lamports
+ */
+export const getSolBalance = async (
+  venue: SwapVenue,
+  walletClient: SolanaWalletClient
+): Promise<number> => {
+  const walletAddress = walletClient.getAddress();
+  if (venue.getBalance) return venue.getBalance(walletAddress);
+  return Number((await walletClient.balanceOf(walletAddress)).value);
+};
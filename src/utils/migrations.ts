@@ -1,5 +1,6 @@
 // src/utils/migrations.ts
 import Database from "better-sqlite3";
+import { getStrategyConfig } from "./strategy";
 
 export function runMigrations(db: Database.Database) {
   console.log("Running database migrations...");
@@ -36,6 +37,186 @@ export function runMigrations(db: Database.Database) {
       `);
     }
     
+    // Check if initial_amount column exists (needed to size take-profit ladder steps)
+    const hasInitialAmount = checkColumnExists(db, "positions", "initial_amount");
+    if (!hasInitialAmount) {
+      console.log("Adding initial_amount column to positions table");
+      db.exec("ALTER TABLE positions ADD COLUMN initial_amount NUMERIC");
+      db.exec("UPDATE positions SET initial_amount = amount");
+    }
+
+    // Check if take_profit_ladder column exists
+    const hasTakeProfitLadder = checkColumnExists(db, "positions", "take_profit_ladder");
+    if (!hasTakeProfitLadder) {
+      console.log("Adding take_profit_ladder column to positions table");
+      db.exec("ALTER TABLE positions ADD COLUMN take_profit_ladder TEXT");
+
+      // Give existing active positions the default ladder
+      db.prepare(`
+        UPDATE positions
+        SET take_profit_ladder = ?
+        WHERE status = 'ACTIVE'
+      `).run(JSON.stringify(getStrategyConfig().takeProfitLadder));
+    }
+
+    // Check if per-position stop/target columns exist
+    const hasStopLossPrice = checkColumnExists(db, "positions", "stop_loss_price");
+    if (!hasStopLossPrice) {
+      console.log("Adding stop-loss, take-profit and breakeven columns to positions table");
+      db.exec("ALTER TABLE positions ADD COLUMN stop_loss_price NUMERIC");
+      db.exec("ALTER TABLE positions ADD COLUMN take_profit_price NUMERIC");
+      db.exec("ALTER TABLE positions ADD COLUMN breakeven_trigger_percentage NUMERIC");
+
+      // Seed existing active positions from the strategy defaults
+      const strategy = getStrategyConfig();
+      db.prepare(`
+        UPDATE positions
+        SET
+          stop_loss_price = entry_price * ?,
+          take_profit_price = entry_price * ?,
+          breakeven_trigger_percentage = ?
+        WHERE status = 'ACTIVE'
+      `).run(
+        1 - strategy.stopLossPercentage / 100,
+        1 + strategy.takeProfitPercentage / 100,
+        strategy.breakevenTriggerPercentage
+      );
+    }
+
+    // Check if time-based exit columns exist
+    const hasEntryTime = checkColumnExists(db, "positions", "entry_time");
+    if (!hasEntryTime) {
+      console.log("Adding time-based exit columns to positions table");
+      db.exec("ALTER TABLE positions ADD COLUMN entry_time INTEGER");
+      db.exec("ALTER TABLE positions ADD COLUMN highest_price_at INTEGER");
+      db.exec("ALTER TABLE positions ADD COLUMN max_holding_minutes NUMERIC");
+      db.exec("ALTER TABLE positions ADD COLUMN stale_after_minutes NUMERIC");
+
+      // The original entry time is unknown, so start the clock at the last update
+      const strategy = getStrategyConfig();
+      db.prepare(`
+        UPDATE positions
+        SET
+          entry_time = last_updated,
+          highest_price_at = last_updated,
+          max_holding_minutes = ?,
+          stale_after_minutes = ?
+        WHERE status = 'ACTIVE'
+      `).run(strategy.maxHoldingMinutes, strategy.staleAfterMinutes);
+    }
+
+    // Check if strategy column exists (selects the strategy used to manage the position)
+    const hasStrategy = checkColumnExists(db, "positions", "strategy");
+    if (!hasStrategy) {
+      console.log("Adding strategy column to positions table");
+      db.exec("ALTER TABLE positions ADD COLUMN strategy TEXT DEFAULT 'default'");
+    }
+
+    // Check if scale-in columns exist
+    const hasTranches = checkColumnExists(db, "positions", "tranches_planned");
+    if (!hasTranches) {
+      console.log("Adding scale-in columns to positions table");
+      db.exec("ALTER TABLE positions ADD COLUMN planned_size NUMERIC");
+      db.exec("ALTER TABLE positions ADD COLUMN deployed_size NUMERIC");
+      db.exec("ALTER TABLE positions ADD COLUMN tranches_planned INTEGER DEFAULT 1");
+      db.exec("ALTER TABLE positions ADD COLUMN tranches_filled INTEGER DEFAULT 1");
+      db.exec("ALTER TABLE positions ADD COLUMN last_entry_price NUMERIC");
+      db.exec("ALTER TABLE positions ADD COLUMN last_entry_time INTEGER");
+
+      // Existing positions were bought in one shot
+      db.exec(`
+        UPDATE positions
+        SET
+          last_entry_price = entry_price,
+          last_entry_time = COALESCE(entry_time, last_updated)
+      `);
+    }
+
+    // Check if exit_reason column exists in trades table
+    const hasExitReason = checkColumnExists(db, "trades", "exit_reason");
+    if (!hasExitReason) {
+      console.log("Adding exit_reason column to trades table");
+      db.exec("ALTER TABLE trades ADD COLUMN exit_reason TEXT");
+    }
+
+    // Check if fees_paid column exists in positions table
+    const hasFeesPaid = checkColumnExists(db, "positions", "fees_paid");
+    if (!hasFeesPaid) {
+      console.log("Adding fees_paid column to positions table");
+      db.exec("ALTER TABLE positions ADD COLUMN fees_paid NUMERIC DEFAULT 0");
+    }
+
+    // Actual fill of each swap, read from the confirmed transaction
+    const fillColumns: Array<[string, string]> = [
+      ["token_amount", "NUMERIC"],
+      ["sol_amount", "NUMERIC"],
+      ["fee", "NUMERIC"],
+      ["priority_fee", "NUMERIC"],
+      ["effective_price", "NUMERIC"],
+      ["failure_reason", "TEXT"],
+    ];
+    for (const [column, type] of fillColumns) {
+      if (!checkColumnExists(db, "trades", column)) {
+        console.log(`Adding ${column} column to trades table`);
+        db.exec(`ALTER TABLE trades ADD COLUMN ${column} ${type}`);
+      }
+    }
+
+    // Check if source column exists in price_history table
+    if (!checkColumnExists(db, "price_history", "source")) {
+      console.log("Adding source column to price_history table");
+      db.exec("ALTER TABLE price_history ADD COLUMN source TEXT");
+    }
+
+    // Check if source column exists in tokens table
+    if (!checkColumnExists(db, "tokens", "source")) {
+      console.log("Adding source column to tokens table");
+      db.exec("ALTER TABLE tokens ADD COLUMN source TEXT");
+    }
+
+    // Rug-risk score columns in tokens table
+    const rugColumns: Array<[string, string]> = [
+      ["rug_score", "INTEGER"],
+      ["rug_factors", "TEXT"],
+      ["rug_checked_at", "INTEGER"],
+    ];
+    for (const [column, type] of rugColumns) {
+      if (!checkColumnExists(db, "tokens", column)) {
+        console.log(`Adding ${column} column to tokens table`);
+        db.exec(`ALTER TABLE tokens ADD COLUMN ${column} ${type}`);
+      }
+    }
+
+    // Check if creator_address column exists in tokens table
+    if (!checkColumnExists(db, "tokens", "creator_address")) {
+      console.log("Adding creator_address column to tokens table");
+      db.exec("ALTER TABLE tokens ADD COLUMN creator_address TEXT");
+    }
+
+    // Position sizing columns, and the signal a position was opened from
+    const sizingColumns: Array<[string, string, string]> = [
+      ["trades", "sizing_strategy", "TEXT"],
+      ["trades", "sizing_inputs", "TEXT"],
+      ["trades", "sizing_lamports", "INTEGER"],
+      ["pending_orders", "sizing_strategy", "TEXT"],
+      ["pending_orders", "sizing_inputs", "TEXT"],
+      ["positions", "signal_id", "TEXT"],
+    ];
+    for (const [table, column, type] of sizingColumns) {
+      if (!checkColumnExists(db, table, column)) {
+        console.log(`Adding ${column} column to ${table} table`);
+        db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+      }
+    }
+
+    // Paper trading flag on positions, trades and pending orders
+    for (const table of ["positions", "trades", "pending_orders"]) {
+      if (!checkColumnExists(db, table, "paper")) {
+        console.log(`Adding paper column to ${table} table`);
+        db.exec(`ALTER TABLE ${table} ADD COLUMN paper INTEGER DEFAULT 0`);
+      }
+    }
+
     // Update existing rows to set values for new columns
     if (!hasHighestPrice || !hasTrailingStop) {
       console.log("Setting default values for new columns in existing positions");
@@ -0,0 +1,94 @@
+// paper-trading.ts:
+// Global paper-trading flag and the virtual SOL balance paper trades settle
+// against, shared by all processes through the settings table
+
+import Database from "better-sqlite3";
+
+const PAPER_TRADING_KEY = "paper_trading";
+const PAPER_BALANCE_KEY = "paper_sol_balance";
+
+// Virtual SOL balance paper trading starts from
+const DEFAULT_PAPER_STARTING_SOL = 10;
+
+/**
+ * Whether new buys are simulated instead of sent on-chain
+ *
+ * Defaults to PAPER_TRADING until toggled from the dashboard. Positions keep
+ * the mode they were opened in, so toggling never turns a paper position
+ * into a live one or the other way around.
+ */
+export function isPaperTrading(db: Database.Database): boolean {
+  try {
+    const row = db
+      .prepare(`SELECT value FROM settings WHERE key = ?`)
+      .get(PAPER_TRADING_KEY) as { value: string } | undefined;
+    return row ? row.value === "true" : process.env.PAPER_TRADING === "true";
+  } catch (error) {
+    // Fail safe: if the flag can't be read, don't spend real SOL
+    console.error("Error reading paper trading flag:", error);
+    return true;
+  }
+}
+
+/**
+ * Persist the paper-trading flag
+ */
+export function setPaperTrading(db: Database.Database, enabled: boolean) {
+  writeSetting(db, PAPER_TRADING_KEY, enabled ? "true" : "false");
+  console.log(`📝 Paper trading ${enabled ? "enabled" : "disabled"}`);
+}
+
+// Starting virtual balance in lamports (PAPER_STARTING_SOL, default 10 SOL)
+export function getPaperStartingBalance(): number {
+  const startingSol =
+    Number(process.env.PAPER_STARTING_SOL) || DEFAULT_PAPER_STARTING_SOL;
+  return Math.floor(startingSol * 1e9);
+}
+
+/**
+ * Read the virtual SOL balance in lamports
+ */
+export function getPaperBalance(db: Database.Database): number {
+  const row = db
+    .prepare(`SELECT value FROM settings WHERE key = ?`)
+    .get(PAPER_BALANCE_KEY) as { value: string } | undefined;
+  return row ? Number(row.value) : getPaperStartingBalance();
+}
+
+/**
+ * Add to (or with a negative delta, take from) the virtual SOL balance
+ *
+ * @param deltaLamports - Lamports to add
+ * @returns The new balance
+ */
+export function adjustPaperBalance(
+  db: Database.Database,
+  deltaLamports: number
+): number {
+  const balance = getPaperBalance(db) + Math.round(deltaLamports);
+  writeSetting(db, PAPER_BALANCE_KEY, balance.toString());
+  return balance;
+}
+
+/**
+ * Reset the virtual SOL balance, by default to the starting balance
+ */
+export function resetPaperBalance(
+  db: Database.Database,
+  lamports: number = getPaperStartingBalance()
+) {
+  writeSetting(db, PAPER_BALANCE_KEY, Math.floor(lamports).toString());
+  console.log(`📝 Paper balance reset to ${(lamports / 1e9).toFixed(4)} SOL`);
+}
+
+function writeSetting(db: Database.Database, key: string, value: string) {
+  db.prepare(
+    `
+    INSERT INTO settings (key, value, updated_at)
+    VALUES (?, ?, unixepoch())
+    ON CONFLICT(key) DO UPDATE SET
+      value = excluded.value,
+      updated_at = excluded.updated_at
+  `
+  ).run(key, value);
+}
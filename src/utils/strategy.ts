@@ -0,0 +1,270 @@
+// strategy.ts:
+// Exit strategy defaults applied to new positions
+
+/**
+ * A single rung of a take-profit ladder
+ */
+export interface TakeProfitStep {
+  // Price multiple of the entry price that triggers this step (e.g. 2 for 2x)
+  multiple: number;
+  // Percentage of the initial position amount to sell at this step
+  sellPercentage: number;
+  // Set once the partial exit for this step has been executed
+  executed?: boolean;
+}
+
+/**
+ * Quote settings for a single swap
+ */
+export interface SwapSettings {
+  slippageBps: number;
+  // Restrict routing to a single pool; false allows multi-hop routes
+  onlyDirectRoutes: boolean;
+  // Refuse quotes with a higher price impact, in percent
+  maxPriceImpactPct?: number;
+}
+
+export interface StrategyConfig {
+  name: string;
+  // Hard stop distance below the entry price, in percent
+  stopLossPercentage: number;
+  // Full exit target above the entry price, in percent
+  takeProfitPercentage: number;
+  // Gain in percent after which the stop is moved up to the entry price
+  breakevenTriggerPercentage: number;
+  trailingStopPercentage: number;
+  // Adapt the trailing stop distance to recent volatility, within floor and ceiling
+  adaptiveTrailingStop: boolean;
+  trailingStopFloorPercentage: number;
+  trailingStopCeilingPercentage: number;
+  // Trailing distance = volatility (std dev of % moves between checks) x multiplier
+  volatilityMultiplier: number;
+  // Number of most recent stored prices used to measure volatility
+  volatilityLookback: number;
+  takeProfitLadder: TakeProfitStep[];
+  // Signals at or above this buy strength are entered in several tranches
+  scaleInMinSignalStrength: number;
+  // Total number of tranches for a scaled-in position (1 disables scale-in)
+  scaleInTranches: number;
+  // Percentage of the planned position size bought by the first tranche
+  scaleInInitialPercentage: number;
+  // Add a tranche when price pulls back this many percent below the last entry
+  scaleInPullbackPercentage: number;
+  // Additional tranches are only bought within this many minutes of the last entry
+  scaleInWindowMinutes: number;
+  // Signals that already pumped place a limit entry this many percent below
+  // the signal price instead of buying at the top (0 disables)
+  limitEntryRetracePercentage: number;
+  // Unfilled limit entries expire after this many minutes
+  limitEntryExpiryMinutes: number;
+  // Exits whose full-size quote exceeds this price impact (percent) are sold
+  // in chunks spaced over time, each chunk sized to stay under the cap
+  twapMaxPriceImpactPercentage: number;
+  // Number of chunks for a TWAP exit (1 disables TWAP exits)
+  twapExitChunks: number;
+  // Seconds between TWAP exit chunks
+  twapExitIntervalSeconds: number;
+  // Slippage range in basis points, scaled from deep to thin liquidity
+  minSlippageBps: number;
+  maxSlippageBps: number;
+  // Quotes with a higher price impact than this (percent) are refused
+  maxPriceImpactPercentage: number;
+  // Allow Jupiter to route through intermediate tokens
+  allowMultiHopRoutes: boolean;
+  // Close positions held longer than this many minutes (0 disables)
+  maxHoldingMinutes: number;
+  // Close positions that have not made a new high for this many minutes (0 disables)
+  staleAfterMinutes: number;
+}
+
+// Keys of the strategy settings that hold a plain number
+type NumericStrategyKey = {
+  [K in keyof StrategyConfig]: StrategyConfig[K] extends number ? K : never;
+}[keyof StrategyConfig];
+
+// Settings for which 0 means "disabled", every other override must be positive
+const ZERO_DISABLES: NumericStrategyKey[] = [
+  "maxHoldingMinutes",
+  "staleAfterMinutes",
+  "limitEntryRetracePercentage",
+  "maxPriceImpactPercentage",
+];
+
+// Built-in strategies. Sell 25% at 2x, 25% at 3x and let the rest ride on the trailing stop
+const STRATEGIES: Record<string, StrategyConfig> = {
+  default: {
+    name: "default",
+    stopLossPercentage: 20,
+    takeProfitPercentage: 400,
+    breakevenTriggerPercentage: 50,
+    trailingStopPercentage: 20,
+    adaptiveTrailingStop: true,
+    trailingStopFloorPercentage: 10,
+    trailingStopCeilingPercentage: 35,
+    volatilityMultiplier: 3,
+    volatilityLookback: 30,
+    takeProfitLadder: [
+      { multiple: 2, sellPercentage: 25 },
+      { multiple: 3, sellPercentage: 25 },
+    ],
+    scaleInMinSignalStrength: 80,
+    scaleInTranches: 3,
+    scaleInInitialPercentage: 50,
+    scaleInPullbackPercentage: 15,
+    scaleInWindowMinutes: 60,
+    limitEntryRetracePercentage: 30,
+    limitEntryExpiryMinutes: 120,
+    twapMaxPriceImpactPercentage: 3,
+    twapExitChunks: 4,
+    twapExitIntervalSeconds: 60,
+    minSlippageBps: 100,
+    maxSlippageBps: 1000,
+    maxPriceImpactPercentage: 10,
+    allowMultiHopRoutes: false,
+    maxHoldingMinutes: 240,
+    staleAfterMinutes: 60,
+  },
+};
+
+/**
+ * Parse a ladder definition such as "2:25,3:25" (multiple:sellPercentage pairs)
+ *
+ * @param value - The ladder definition string
+ * @returns The parsed ladder steps sorted by multiple, or null if invalid
+ */
+export function parseTakeProfitLadder(value: string): TakeProfitStep[] | null {
+  const steps: TakeProfitStep[] = [];
+
+  for (const part of value
+    .split(",")
+    .map((p) => p.trim())
+    .filter(Boolean)) {
+    const [multiple, sellPercentage] = part.split(":").map(Number);
+    if (!(multiple > 1) || !(sellPercentage > 0) || sellPercentage > 100) {
+      return null;
+    }
+    steps.push({ multiple, sellPercentage });
+  }
+
+  return steps.sort((a, b) => a.multiple - b.multiple);
+}
+
+/**
+ * Get the strategy configuration for new positions
+ *
+ * The strategy is selected by name (or TRADING_STRATEGY) and individual values
+ * can be overridden through environment variables.
+ *
+ * @param name - Optional strategy name (default: "default")
+ * @returns The resolved strategy configuration
+ */
+export function getStrategyConfig(name?: string): StrategyConfig {
+  const strategyName = name || process.env.TRADING_STRATEGY || "default";
+  const base = STRATEGIES[strategyName] || STRATEGIES.default;
+
+  // Copy so callers can safely mutate the ladder of their own position
+  const config: StrategyConfig = {
+    ...base,
+    takeProfitLadder: base.takeProfitLadder.map((step) => ({ ...step })),
+  };
+
+  const numericOverrides: Array<[NumericStrategyKey, string | undefined]> = [
+    ["stopLossPercentage", process.env.STOP_LOSS_PERCENTAGE],
+    ["takeProfitPercentage", process.env.TAKE_PROFIT_PERCENTAGE],
+    ["breakevenTriggerPercentage", process.env.BREAKEVEN_TRIGGER_PERCENTAGE],
+    ["trailingStopPercentage", process.env.TRAILING_STOP_PERCENTAGE],
+    ["maxHoldingMinutes", process.env.MAX_HOLDING_MINUTES],
+    ["staleAfterMinutes", process.env.STALE_AFTER_MINUTES],
+    ["trailingStopFloorPercentage", process.env.TRAILING_STOP_FLOOR_PERCENTAGE],
+    [
+      "trailingStopCeilingPercentage",
+      process.env.TRAILING_STOP_CEILING_PERCENTAGE,
+    ],
+    ["volatilityMultiplier", process.env.VOLATILITY_MULTIPLIER],
+    ["scaleInMinSignalStrength", process.env.SCALE_IN_MIN_SIGNAL_STRENGTH],
+    ["scaleInTranches", process.env.SCALE_IN_TRANCHES],
+    ["scaleInInitialPercentage", process.env.SCALE_IN_INITIAL_PERCENTAGE],
+    ["scaleInPullbackPercentage", process.env.SCALE_IN_PULLBACK_PERCENTAGE],
+    ["scaleInWindowMinutes", process.env.SCALE_IN_WINDOW_MINUTES],
+    ["limitEntryRetracePercentage", process.env.LIMIT_ENTRY_RETRACE_PERCENTAGE],
+    ["limitEntryExpiryMinutes", process.env.LIMIT_ENTRY_EXPIRY_MINUTES],
+    [
+      "twapMaxPriceImpactPercentage",
+      process.env.TWAP_MAX_PRICE_IMPACT_PERCENTAGE,
+    ],
+    ["twapExitChunks", process.env.TWAP_EXIT_CHUNKS],
+    ["twapExitIntervalSeconds", process.env.TWAP_EXIT_INTERVAL_SECONDS],
+    ["minSlippageBps", process.env.MIN_SLIPPAGE_BPS],
+    ["maxSlippageBps", process.env.MAX_SLIPPAGE_BPS],
+    ["maxPriceImpactPercentage", process.env.MAX_PRICE_IMPACT_PERCENTAGE],
+  ];
+  for (const [key, value] of numericOverrides) {
+    const parsed = Number(value);
+    const minimumMet = ZERO_DISABLES.includes(key) ? parsed >= 0 : parsed > 0;
+    if (value !== undefined && value !== "" && minimumMet) {
+      config[key] = parsed;
+    }
+  }
+
+  if (process.env.ADAPTIVE_TRAILING_STOP !== undefined) {
+    config.adaptiveTrailingStop =
+      process.env.ADAPTIVE_TRAILING_STOP !== "false";
+  }
+
+  if (process.env.ALLOW_MULTI_HOP_ROUTES !== undefined) {
+    config.allowMultiHopRoutes = process.env.ALLOW_MULTI_HOP_ROUTES === "true";
+  }
+
+  if (process.env.TAKE_PROFIT_LADDER !== undefined) {
+    const ladder = parseTakeProfitLadder(process.env.TAKE_PROFIT_LADDER);
+    if (ladder) {
+      config.takeProfitLadder = ladder;
+    } else {
+      console.warn(
+        `Invalid TAKE_PROFIT_LADDER "${process.env.TAKE_PROFIT_LADDER}", using ${config.name} ladder`
+      );
+    }
+  }
+
+  return config;
+}
+
+// Liquidity (USD) at or above which the minimum slippage is used
+const DEEP_LIQUIDITY_USD = 1_000_000;
+// Liquidity (USD) at or below which the maximum slippage is used
+const THIN_LIQUIDITY_USD = 10_000;
+
+/**
+ * Derive quote settings for a swap from the token's liquidity
+ *
+ * Slippage scales logarithmically from maxSlippageBps for thin pools down to
+ * minSlippageBps for deep ones. Unknown liquidity gets the maximum.
+ *
+ * @param strategy - The strategy providing the slippage range and price impact cap
+ * @param liquidityUsd - The token's liquidity in USD, if known
+ * @returns Slippage, routing and price impact settings for getQuote
+ */
+export function getSwapSettings(
+  strategy: StrategyConfig,
+  liquidityUsd?: number | null
+): SwapSettings {
+  let slippageBps = strategy.maxSlippageBps;
+
+  if (liquidityUsd && liquidityUsd > THIN_LIQUIDITY_USD) {
+    const depth = Math.min(
+      1,
+      Math.log10(liquidityUsd / THIN_LIQUIDITY_USD) /
+        Math.log10(DEEP_LIQUIDITY_USD / THIN_LIQUIDITY_USD)
+    );
+    slippageBps = Math.round(
+      strategy.maxSlippageBps -
+        depth * (strategy.maxSlippageBps - strategy.minSlippageBps)
+    );
+  }
+
+  return {
+    slippageBps,
+    onlyDirectRoutes: !strategy.allowMultiHopRoutes,
+    maxPriceImpactPct: strategy.maxPriceImpactPercentage || undefined,
+  };
+}
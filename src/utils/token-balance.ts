@@ -1,9 +1,51 @@
 import { Connection, PublicKey } from "@solana/web3.js";
 
+// Token program ids as reported in jsonParsed account data
+const SPL_TOKEN_PROGRAM = "spl-token";
+const TOKEN_2022_PROGRAM = "spl-token-2022";
+
+/**
+ * Mint details read from the parsed mint account
+ */
+export interface MintInfo {
+  decimals: number;
+  // "spl-token" or "spl-token-2022"
+  program: string;
+  isToken2022: boolean;
+  // Names of the Token-2022 extensions enabled on the mint
+  extensions: string[];
+  // Token-2022 transfer fee for the current epoch, 0 if the mint has none
+  transferFeeBasisPoints: number;
+  // Maximum transfer fee per transfer in raw units, null if the mint has none
+  maxTransferFee: bigint | null;
+  // Authorities that can still mint new supply or freeze token accounts,
+  // null once revoked
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+  // Program invoked on every transfer by the Token-2022 transfer hook
+  // extension, null if the mint has no hook
+  transferHookProgramId: string | null;
+  // Name and symbol from the Token-2022 token metadata extension, if present
+  metadata: { name: string; symbol: string } | null;
+}
+
+function createConnection(connection?: Connection): Connection {
+  return (
+    connection ||
+    new Connection(
+      process.env.SOLANA_RPC_URL || "https://api.mainnet-beta.solana.com",
+      "confirmed"
+    )
+  );
+}
+
 /**
  * Gets the actual token balance from the blockchain.
  * Creates a new connection if needed to avoid dependency issues.
  *
+ * Sums every token account the wallet holds for the mint, for both SPL Token
+ * and Token-2022 mints.
+ *
  * @param tokenMintAddress The token's mint address
  * @param walletAddress The wallet address to check
  * @param connection Optional Solana connection
@@ -15,46 +57,123 @@ export async function getTokenBalance(
   connection?: Connection
 ): Promise<bigint | null> {
   try {
-    // Create or use provided connection
-    const conn =
-      connection ||
-      new Connection(
-        process.env.SOLANA_RPC_URL || "https://api.mainnet-beta.solana.com",
-        "confirmed"
-      );
-
-    // Find all token accounts owned by this wallet for the specified token
-    const tokenAccounts = await conn.getTokenAccountsByOwner(
+    const conn = createConnection(connection);
+
+    // Find all token accounts owned by this wallet for the specified token.
+    // Filtering by mint covers whichever token program owns the mint
+    const tokenAccounts = await conn.getParsedTokenAccountsByOwner(
       new PublicKey(walletAddress),
       {
         mint: new PublicKey(tokenMintAddress),
       }
     );
 
-    // If no token accounts found, the wallet doesn't own this token
-    if (tokenAccounts.value.length === 0) {
-      return BigInt(0);
+    let balance = BigInt(0);
+    for (const { account } of tokenAccounts.value) {
+      const amount = account.data.parsed?.info?.tokenAmount?.amount;
+      if (amount) balance += BigInt(amount);
     }
 
-    // Get the token account data (typically only one per token per wallet)
-    const tokenAccount = tokenAccounts.value[0];
-    const accountInfo = await conn.getAccountInfo(tokenAccount.pubkey);
+    return balance;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Gets the mint's decimals, token program and Token-2022 extensions
+ *
+ * @param tokenMintAddress The token's mint address
+ * @param connection Optional Solana connection
+ * @returns The mint info, or null if the mint can't be read
+ */
+export async function getMintInfo(
+  tokenMintAddress: string,
+  connection?: Connection
+): Promise<MintInfo | null> {
+  try {
+    const conn = createConnection(connection);
 
-    if (!accountInfo) {
+    const { value } = await conn.getParsedAccountInfo(
+      new PublicKey(tokenMintAddress)
+    );
+    const data = value?.data;
+    if (!data || Buffer.isBuffer(data) || data.parsed?.type !== "mint") {
       return null;
     }
 
-    // The token amount is at bytes 64-71 in TOKEN_PROGRAM_ID account data
-    const data = accountInfo.data;
-    const amountBuffer = data.slice(64, 72);
-    const amount = amountBuffer.readBigUInt64LE(0);
+    const info = data.parsed.info;
+    const isToken2022 = data.program === TOKEN_2022_PROGRAM;
+    const extensions: any[] = info.extensions || [];
 
-    return amount;
+    // Transfer fees can be scheduled, the newer fee applies from its epoch on
+    let transferFeeBasisPoints = 0;
+    let maxTransferFee: bigint | null = null;
+    const transferFeeConfig = extensions.find(
+      (extension) => extension.extension === "transferFeeConfig"
+    );
+    if (transferFeeConfig) {
+      const { newerTransferFee, olderTransferFee } = transferFeeConfig.state;
+      const { epoch } = await conn.getEpochInfo();
+      const fee =
+        epoch >= Number(newerTransferFee.epoch)
+          ? newerTransferFee
+          : olderTransferFee;
+      transferFeeBasisPoints = Number(fee.transferFeeBasisPoints);
+      maxTransferFee = BigInt(fee.maximumFee);
+    }
+
+    const tokenMetadata = extensions.find(
+      (extension) => extension.extension === "tokenMetadata"
+    );
+    const transferHook = extensions.find(
+      (extension) => extension.extension === "transferHook"
+    );
+
+    return {
+      decimals: info.decimals,
+      program: isToken2022 ? TOKEN_2022_PROGRAM : SPL_TOKEN_PROGRAM,
+      isToken2022,
+      extensions: extensions.map((extension) => extension.extension),
+      transferFeeBasisPoints,
+      maxTransferFee,
+      mintAuthority: info.mintAuthority || null,
+      freezeAuthority: info.freezeAuthority || null,
+      transferHookProgramId: transferHook?.state?.programId || null,
+      metadata: tokenMetadata
+        ? {
+            name: tokenMetadata.state.name || "",
+            symbol: tokenMetadata.state.symbol || "",
+          }
+        : null,
+    };
   } catch (error) {
     return null;
   }
 }
 
+/**
+ * Calculate the Token-2022 transfer fee withheld when transferring an amount
+ *
+ * @param amount Raw amount being transferred
+ * @param mintInfo The mint's info from getMintInfo
+ * @returns The fee in raw units, 0 for mints without a transfer fee
+ */
+export function calculateTransferFee(
+  amount: bigint,
+  mintInfo: MintInfo
+): bigint {
+  if (!mintInfo.transferFeeBasisPoints) return BigInt(0);
+
+  // Rounded up, as the token program does
+  const fee =
+    (amount * BigInt(mintInfo.transferFeeBasisPoints) + BigInt(9999)) /
+    BigInt(10000);
+  return mintInfo.maxTransferFee !== null && fee > mintInfo.maxTransferFee
+    ? mintInfo.maxTransferFee
+    : fee;
+}
+
 /**
  * Utility function to check if a wallet has enough tokens to sell
  *
@@ -95,36 +214,27 @@ export async function hasEnoughTokens(
  *
  * @param tokenMintAddress The token's mint address
  * @param connection Optional Solana connection
- * @returns Token info with decimals and symbol, or null if error
+ * @returns Token info with decimals, symbol and token program, or null if error
  */
 export async function getTokenInfo(
   tokenMintAddress: string,
   connection?: Connection
-): Promise<{ decimals: number; symbol: string } | null> {
-  try {
-    // Create or use provided connection
-    const conn =
-      connection ||
-      new Connection(
-        process.env.SOLANA_RPC_URL || "https://api.mainnet-beta.solana.com",
-        "confirmed"
-      );
-
-    const mintInfo = await conn.getAccountInfo(new PublicKey(tokenMintAddress));
-
-    if (!mintInfo) {
-      return null;
-    }
-
-    // The decimals value is at byte 44 in mint data structure
-    const decimals = mintInfo.data[44];
-
-    // Simple placeholder for symbol
-    return {
-      decimals,
-      symbol: `TOKEN-${tokenMintAddress.slice(0, 4)}`,
-    };
-  } catch (error) {
+): Promise<{
+  decimals: number;
+  symbol: string;
+  isToken2022: boolean;
+  transferFeeBasisPoints: number;
+} | null> {
+  const mintInfo = await getMintInfo(tokenMintAddress, connection);
+  if (!mintInfo) {
     return null;
   }
+
+  // Simple placeholder for symbol
+  return {
+    decimals: mintInfo.decimals,
+    symbol: `TOKEN-${tokenMintAddress.slice(0, 4)}`,
+    isToken2022: mintInfo.isToken2022,
+    transferFeeBasisPoints: mintInfo.transferFeeBasisPoints,
+  };
 }
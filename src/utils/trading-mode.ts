@@ -0,0 +1,88 @@
+// trading-mode.ts:
+// Global trading mode shared by all processes through the settings table
+
+import Database from "better-sqlite3";
+
+/**
+ * ACTIVE: normal trading
+ * BUYS_PAUSED: no SOL is spent, neither on new positions nor on scale-in
+ *   tranches. Pending limit entries and planned tranches are kept and resume
+ *   with trading. Positions keep being managed and exited
+ * EXITS_ONLY: winding down. As BUYS_PAUSED, but setting it cancels pending
+ *   limit entries and drops planned scale-in tranches, so switching back
+ *   buys nothing that was planned before
+ * HALTED: nothing trades automatically, not even exits. Manual closes and
+ *   the panic sell still work
+ */
+export type TradingMode = "ACTIVE" | "BUYS_PAUSED" | "EXITS_ONLY" | "HALTED";
+
+export const TRADING_MODES: TradingMode[] = [
+  "ACTIVE",
+  "BUYS_PAUSED",
+  "EXITS_ONLY",
+  "HALTED",
+];
+
+// What each mode allows, as shown on the dashboard
+export const TRADING_MODE_DESCRIPTIONS: Record<TradingMode, string> = {
+  ACTIVE: "Normal trading.",
+  BUYS_PAUSED:
+    "No buys: no new positions, limit entries or scale-in tranches. Pending limit entries and planned tranches wait and resume with trading. Exits continue.",
+  EXITS_ONLY:
+    "Winding down: pending limit entries are cancelled and planned scale-in tranches dropped, no buys of any kind. Positions are still exited automatically.",
+  HALTED:
+    "Nothing trades automatically, not even exits. Manual closes still work.",
+};
+
+const TRADING_MODE_KEY = "trading_mode";
+
+export const isTradingMode = (value: unknown): value is TradingMode =>
+  TRADING_MODES.includes(value as TradingMode);
+
+/**
+ * Read the current trading mode, ACTIVE if it was never set
+ *
+ * Read on every decision rather than cached, so a change made from the
+ * dashboard applies to the other processes on their next check.
+ */
+export function getTradingMode(db: Database.Database): TradingMode {
+  try {
+    const row = db
+      .prepare(`SELECT value FROM settings WHERE key = ?`)
+      .get(TRADING_MODE_KEY) as { value: string } | undefined;
+    return row && isTradingMode(row.value) ? row.value : "ACTIVE";
+  } catch (error) {
+    // Fail safe: if the mode can't be read, don't trade
+    console.error("Error reading trading mode:", error);
+    return "HALTED";
+  }
+}
+
+/**
+ * Persist a new trading mode
+ */
+export function setTradingMode(db: Database.Database, mode: TradingMode) {
+  db.prepare(
+    `
+    INSERT INTO settings (key, value, updated_at)
+    VALUES (?, ?, unixepoch())
+    ON CONFLICT(key) DO UPDATE SET
+      value = excluded.value,
+      updated_at = excluded.updated_at
+  `
+  ).run(TRADING_MODE_KEY, mode);
+  console.log(`🚦 Trading mode set to ${mode}`);
+}
+
+// New positions, from signals or limit entries
+export const canOpenPositions = (mode: TradingMode) => mode === "ACTIVE";
+
+// Scale-in tranches of positions that are already open
+export const canAddToPositions = (mode: TradingMode) => mode === "ACTIVE";
+
+// Stops, targets, time-based exits, TWAP chunks and sell signals
+export const canExitAutomatically = (mode: TradingMode) => mode !== "HALTED";
+
+// Pending limit entries and planned scale-in tranches are cancelled when the
+// mode is set, instead of waiting for trading to resume
+export const cancelsPlannedBuys = (mode: TradingMode) => mode === "EXITS_ONLY";
@@ -0,0 +1,59 @@
+// volatility.ts:
+// Utility functions for measuring price volatility from a stored price series
+
+/**
+ * Calculate volatility as the standard deviation of the percentage change
+ * between consecutive prices
+ *
+ * @param prices - Price series in chronological order
+ * @returns The volatility in percent, or null if there are too few prices
+ */
+export function calculateVolatility(prices: number[]): number | null {
+  const returns: number[] = [];
+  for (let i = 1; i < prices.length; i++) {
+    if (prices[i - 1] > 0) {
+      returns.push(((prices[i] - prices[i - 1]) / prices[i - 1]) * 100);
+    }
+  }
+
+  if (returns.length < 2) return null;
+
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance =
+    returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) /
+    (returns.length - 1);
+
+  return Math.sqrt(variance);
+}
+
+/**
+ * Derive a trailing stop distance from recent volatility
+ *
+ * Fresh launches without enough price history get the ceiling (widest stop),
+ * then the stop tightens towards the floor as price stabilizes.
+ *
+ * @param prices - Price series in chronological order
+ * @param config - Multiplier, floor, ceiling and minimum number of samples
+ * @returns The trailing stop percentage clamped between floor and ceiling
+ */
+export function calculateAdaptiveTrailingStop(
+  prices: number[],
+  config: {
+    volatilityMultiplier: number;
+    floorPercentage: number;
+    ceilingPercentage: number;
+    minSamples: number;
+  }
+): number {
+  const volatility =
+    prices.length >= config.minSamples ? calculateVolatility(prices) : null;
+
+  if (volatility === null) {
+    return config.ceilingPercentage;
+  }
+
+  return Math.min(
+    config.ceilingPercentage,
+    Math.max(config.floorPercentage, volatility * config.volatilityMultiplier)
+  );
+}